@@ -0,0 +1,75 @@
+/**
+ * Battery Service - Standard BLE Battery Service (0x180F)
+ *
+ * The KB1 reports its charge through the standard Battery Level
+ * characteristic. Firmware that knows whether it is on the charger also
+ * exposes the Battery Power State characteristic; without it the charging
+ * state is unknown.
+ */
+
+export const BATTERY_SERVICE_UUID = '0000180f-0000-1000-8000-00805f9b34fb';
+export const BATTERY_LEVEL_UUID = '00002a19-0000-1000-8000-00805f9b34fb';
+export const BATTERY_POWER_STATE_UUID = '00002a1a-0000-1000-8000-00805f9b34fb';
+
+/**
+ * Charge levels (percent) that trigger a warning while not charging
+ */
+export const BATTERY_LOW_PERCENT = 20;
+export const BATTERY_CRITICAL_PERCENT = 10;
+
+export interface BatteryStatus {
+  /** Charge in percent (0-100) */
+  level: number;
+  /** Whether the KB1 is charging, null when the firmware doesn't say */
+  charging: boolean | null;
+}
+
+/**
+ * Decode the Battery Level characteristic
+ * Format: [percent(1)]
+ */
+export function decodeBatteryLevel(data: DataView): number {
+  if (data.byteLength < 1) {
+    throw new Error('Battery level payload is empty');
+  }
+  return Math.min(data.getUint8(0), 100);
+}
+
+/**
+ * Encode the Battery Level characteristic (used by the simulated device)
+ */
+export function encodeBatteryLevel(level: number): Uint8Array {
+  return new Uint8Array([Math.max(0, Math.min(100, Math.round(level)))]);
+}
+
+// Battery Power State: two bits each for present, discharging, charging and level
+const POWER_STATE_CHARGING_SHIFT = 4;
+const POWER_STATE_CHARGING = 0b11;
+const POWER_STATE_NOT_CHARGING = 0b10;
+
+/**
+ * Decode the charging field of the Battery Power State characteristic
+ * Format: [present(2 bits)][discharging(2)][charging(2)][level(2)], LSB first.
+ * Returns null when the state is unknown or the battery isn't chargeable.
+ */
+export function decodeBatteryCharging(data: DataView): boolean | null {
+  if (data.byteLength < 1) {
+    throw new Error('Battery power state payload is empty');
+  }
+  const charging = (data.getUint8(0) >> POWER_STATE_CHARGING_SHIFT) & 0b11;
+  if (charging === POWER_STATE_CHARGING) {
+    return true;
+  }
+  return charging === POWER_STATE_NOT_CHARGING ? false : null;
+}
+
+/**
+ * Encode the Battery Power State characteristic (used by the simulated device)
+ * Reports the battery as present, and discharging whenever it isn't charging.
+ */
+export function encodeBatteryPowerState(charging: boolean): Uint8Array {
+  const present = 0b11;
+  const discharging = charging ? 0b10 : 0b11;
+  const chargingState = charging ? POWER_STATE_CHARGING : POWER_STATE_NOT_CHARGING;
+  return new Uint8Array([present | (discharging << 2) | (chargingState << POWER_STATE_CHARGING_SHIFT)]);
+}
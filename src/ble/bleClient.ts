@@ -1,66 +1,231 @@
 /**
- * BLE Client - Web Bluetooth transport layer for KB1 device
+ * BLE Client - KB1 device client
  * 
- * This module handles the low-level BLE connection and communication
- * using the Web Bluetooth API. It provides a clean interface for
- * connecting, disconnecting, and sending/receiving data.
+ * This module handles the KB1 connection lifecycle and characteristic
+ * I/O on top of a pluggable KB1Transport (Web Bluetooth by default).
+ * It provides a clean interface for connecting, disconnecting, and
+ * sending/receiving data.
  */
 
-import type { LeverSettings, LeverPushSettings, TouchSettings, ScaleSettings, SystemSettings, DeviceSettings, DevicePresetMetadata } from './kb1Protocol';
-import { PRESET_CHARACTERISTIC_UUIDS, encodePresetSave, encodePresetLoad, encodePresetDelete, decodePresetList } from './kb1Protocol';
+import type { LeverSettings, LeverPushSettings, TouchSettings, ScaleSettings, SystemSettings, DeviceSettings, DevicePresetMetadata, SettingsPayloads, CCMapping, CCMappingTable } from './kb1Protocol';
+import { CC_MAPPING_UUID, DEVICE_NAME_UUID, encodeDeviceName, decodeDeviceName, validateDeviceName, DEVICE_RESET_UUID, DeviceResetScope, encodeDeviceReset, decodeFactoryDefaults, WRITE_MODE_UUID, WriteModeCommand, encodeWriteModeCommand, decodeWriteModeState, type WriteModeState, PRESET_CHARACTERISTIC_UUIDS, kb1Protocol, encodePresetSave, encodePresetLoad, encodePresetDelete, decodePresetList, encodePresetRead, decodePresetContents, encodePresetSlotOperation, PresetSlotOperation, encodeControlChange, encodeControlChangeBatch, MIDI_BATCH_MAX_PAIRS } from './kb1Protocol';
+import { SETTINGS_LAYOUTS, SETTINGS_SECTIONS, decodeSection, encodeSection, needsPreviousPayload, type SettingsSection } from './settingsCodec';
+import { bytesEqual, hashBytes, toDataView, type KB1Transport } from './transport';
+import { WebBluetoothTransport } from './webBluetoothTransport';
+import { GattOperationQueue, OperationPriority } from './gattQueue';
+import { CCCoalescer, type CCCoalescerStats, type CCPair } from './ccCoalescer';
+import {
+  CAPABILITY_BITS,
+  DEVICE_INFO_UUID,
+  DEVICE_INFORMATION_SERVICE_UUID,
+  FIRMWARE_REVISION_UUID,
+  HARDWARE_REVISION_UUID,
+  decodeDeviceInfo,
+  decodeRevisionString,
+  firmwareUpdateMessage,
+  type DeviceCapabilities,
+  type DeviceFeature,
+} from './deviceCapabilities';
+import {
+  BATTERY_LEVEL_UUID,
+  BATTERY_POWER_STATE_UUID,
+  BATTERY_SERVICE_UUID,
+  decodeBatteryCharging,
+  decodeBatteryLevel,
+  type BatteryStatus,
+} from './batteryService';
 
 // KB1-specific BLE UUIDs (custom, not standard MIDI BLE)
 // These UUIDs are defined in the KB1 firmware (firmware/src/objects/Constants.h)
 // Service UUID: KB1 custom service
 const KB1_SERVICE_UUID = 'f22b99e8-81ab-4e46-abff-79a74a1f2ff3';
-// Characteristic UUIDs for KB1 device settings
-const LEVER1_SETTINGS_UUID = '6bae0d4d-a0a4-4bc6-9802-a5d27fb15680';
-const LEVERPUSH1_SETTINGS_UUID = '1de84ff3-36c0-4cf6-912b-208600cf94f4';
-const LEVER2_SETTINGS_UUID = '13ffbea4-793f-40f5-82da-ac9eca5f0e09';
-const LEVERPUSH2_SETTINGS_UUID = '52629808-3d14-4ae8-a826-40bcec6467d5';
-const TOUCH_SETTINGS_UUID = '5612b54d-8bfe-4217-a079-c9c95ab32c41';
-const SCALE_SETTINGS_UUID = '297bd635-c3e8-4fb4-b5e0-93586da8f14c';
-const SYSTEM_SETTINGS_UUID = '8f7e6d5c-4b3a-2c1d-0e9f-8a7b6c5d4e3f';
-const MIDI_UUID = 'eb58b31b-d963-4c7d-9a11-e8aabec2fe32';
-const KEEPALIVE_UUID = 'a8f3d5e2-9c4b-11ef-8e7a-325096b39f47';
+// Settings characteristic UUIDs live with their layouts in settingsCodec.ts
+export const MIDI_UUID = 'eb58b31b-d963-4c7d-9a11-e8aabec2fe32';
+export const KEEPALIVE_UUID = 'a8f3d5e2-9c4b-11ef-8e7a-325096b39f47';
+
+/**
+ * Every characteristic the client discovers on connect
+ */
+const KB1_CHARACTERISTIC_UUIDS: readonly string[] = [
+  MIDI_UUID,
+  ...SETTINGS_SECTIONS.map(section => SETTINGS_LAYOUTS[section].uuid),
+  KEEPALIVE_UUID,
+  ...Object.values(PRESET_CHARACTERISTIC_UUIDS),
+  CC_MAPPING_UUID,
+  WRITE_MODE_UUID,
+  DEVICE_RESET_UUID,
+  DEVICE_NAME_UUID,
+  DEVICE_INFO_UUID,
+  FIRMWARE_REVISION_UUID,
+  HARDWARE_REVISION_UUID,
+  BATTERY_LEVEL_UUID,
+  BATTERY_POWER_STATE_UUID,
+];
+
+/**
+ * Characteristics each optional feature needs on the connected device
+ */
+const FEATURE_CHARACTERISTICS: Record<DeviceFeature, readonly string[]> = {
+  presets: [
+    PRESET_CHARACTERISTIC_UUIDS.SAVE,
+    PRESET_CHARACTERISTIC_UUIDS.LOAD,
+    PRESET_CHARACTERISTIC_UUIDS.LIST,
+    PRESET_CHARACTERISTIC_UUIDS.DELETE,
+  ],
+  keepAlive: [KEEPALIVE_UUID],
+  midiBatch: [], // Format of MIDI writes only; needs the capability bit
+  ccMappings: [CC_MAPPING_UUID],
+  presetRead: [PRESET_CHARACTERISTIC_UUIDS.READ],
+  presetSlotOps: [PRESET_CHARACTERISTIC_UUIDS.SLOT_OP],
+  audition: [WRITE_MODE_UUID],
+  deviceReset: [DEVICE_RESET_UUID],
+  deviceName: [DEVICE_NAME_UUID],
+};
+
+/**
+ * Connection lifecycle state
+ * - reconnecting: link was lost, backoff reconnect in progress
+ * - reconnected: link restored after a drop (connected)
+ * - gave-up: reconnect attempts exhausted
+ */
+export type ConnectionState = 'disconnected' | 'connected' | 'reconnecting' | 'reconnected' | 'gave-up';
+
+/**
+ * Timeout and retry policy per operation priority
+ * Live MIDI is never retried (a late CC is worse than a dropped one)
+ */
+const OPERATION_POLICY: Record<OperationPriority, { timeoutMs: number; retries: number }> = {
+  [OperationPriority.LIVE_MIDI]: { timeoutMs: 1000, retries: 0 },
+  [OperationPriority.SETTINGS]: { timeoutMs: 5000, retries: 2 },
+  [OperationPriority.KEEPALIVE]: { timeoutMs: 2000, retries: 0 },
+};
+
+/**
+ * Callback for a settings section changed on the device
+ */
+export type SettingsChangedCallback = (section: SettingsSection, settings: DeviceSettings[SettingsSection]) => void;
+
+/**
+ * Callback for a battery level or charging change (null when disconnected)
+ */
+export type BatteryChangedCallback = (status: BatteryStatus | null) => void;
+
+/**
+ * A settings section whose device bytes no longer match the last ones the
+ * client read, wrote or was notified of
+ */
+export interface SettingsDrift {
+  section: SettingsSection;
+  /** Settings decoded from the device */
+  settings: DeviceSettings[SettingsSection];
+  /** Hash of the device bytes */
+  hash: number;
+}
+
+/**
+ * Callback for settings that drifted without a notification
+ */
+export type SettingsDriftCallback = (drift: SettingsDrift[]) => void;
 
 export interface BLEConnectionStatus {
   connected: boolean;
-  device: BluetoothDevice | null;
+  state: ConnectionState;
+  deviceName: string | null;
   error: string | null;
+  /** Current reconnect attempt (1-based), 0 when not reconnecting */
+  reconnectAttempt: number;
+  /** Firmware version and features, discovered on connect */
+  capabilities: DeviceCapabilities | null;
 }
 
 export class BLEClient {
-  private device: BluetoothDevice | null = null;
-  private server: BluetoothRemoteGATTServer | null = null;
-  private characteristic: BluetoothRemoteGATTCharacteristic | null = null;
+  private transport: KB1Transport;
   private onStatusChange: ((status: BLEConnectionStatus) => void) | null = null;
   private onDataReceived: ((data: DataView) => void) | null = null;
+  private onSettingsChanged: SettingsChangedCallback | null = null;
+  private onSettingsDrift: SettingsDriftCallback | null = null;
+  private onBatteryChanged: BatteryChangedCallback | null = null;
   
-  // Store characteristics for settings read/write
-  private lever1Characteristic: BluetoothRemoteGATTCharacteristic | null = null;
-  private leverPush1Characteristic: BluetoothRemoteGATTCharacteristic | null = null;
-  private lever2Characteristic: BluetoothRemoteGATTCharacteristic | null = null;
-  private leverPush2Characteristic: BluetoothRemoteGATTCharacteristic | null = null;
-  private touchCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
-  private scaleCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
-  private systemCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
-  private keepAliveCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
-  
-  // Preset management characteristics
-  private presetSaveCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
-  private presetLoadCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
-  private presetListCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
-  private presetDeleteCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
+  // All characteristic I/O is serialized through this queue
+  private operationQueue = new GattOperationQueue();
+
+  // Firmware version and features of the connected device
+  private capabilities: DeviceCapabilities | null = null;
+  // Physical fader count, learned from the CC mapping characteristic
+  private faderCount: number | null = null;
+
+  // Last payload seen per settings section (preserves firmware-internal fields)
+  private lastSettingsPayloads: SettingsPayloads = {};
+  // Payloads being written, so their notification echo isn't reported as a device change
+  private pendingSettingsWrites: SettingsPayloads = {};
+  // While > 0, device-side settings changes are tracked but not reported
+  private settingsSyncHolds = 0;
+  // Settings writes are RAM-only until committed (firmware reverts on disconnect)
+  private auditioning = false;
+
+  // Name stored on the device (browsers cache the advertised name until they rescan)
+  private storedDeviceName: string | null = null;
+
+  // Last battery reading (null when disconnected or no Battery Service)
+  private battery: BatteryStatus | null = null;
+  // Battery polling, for firmware that doesn't notify battery changes
+  private batteryPollTimer: ReturnType<typeof setInterval> | null = null;
+  private batteryPollIntervalMs: number = 300000; // 5 minutes
 
   // Keep-alive mechanism (firmware expects writes within 10 minute grace period)
   private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
   private keepAliveIntervalMs: number = 60000; // 60 seconds (well within 10 min grace period)
   private keepAliveEnabled: boolean = true;
 
-  // MIDI CC throttling
-  private lastMidiSendMs: number = 0;
-  private midiThrottleMs: number = 8;
+  // Background read-back catching settings changed without a notification
+  private driftCheckTimer: ReturnType<typeof setInterval> | null = null;
+  private driftCheckIntervalMs: number = 30000; // 30 seconds
+  private driftCheckEnabled: boolean = true;
+  private driftChecking = false;
+  // Last live MIDI sent or received; drift checks wait until it has been quiet
+  private lastMidiActivityAt: number = 0;
+  private midiQuietMs: number = 5000;
+
+  // Live MIDI CC output: last value wins per controller, 8ms minimum spacing
+  private ccCoalescer = new CCCoalescer((cc, value) => this.writeControlChange(cc, value), 8);
+
+  // Automatic reconnection after unexpected link loss (exponential backoff)
+  private autoReconnectEnabled: boolean = true;
+  private reconnectBaseDelayMs: number = 1000;
+  private reconnectMaxDelayMs: number = 30000;
+  private reconnectMaxAttempts: number = 8;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempt: number = 0;
+  // Bumped to invalidate in-flight reconnect attempts
+  private reconnectGeneration: number = 0;
+
+  constructor(transport: KB1Transport) {
+    this.transport = transport;
+    this.transport.setDisconnectListener(() => this.onDisconnected());
+  }
+
+  /**
+   * Swap the underlying transport (disconnects the current one first)
+   */
+  async setTransport(transport: KB1Transport): Promise<void> {
+    if (transport === this.transport) {
+      return;
+    }
+    this.cancelReconnect();
+    if (this.transport.isConnected()) {
+      await this.disconnect();
+    }
+    this.transport.setDisconnectListener(null);
+    this.transport = transport;
+    this.transport.setDisconnectListener(() => this.onDisconnected());
+  }
+
+  /**
+   * Get the active transport
+   */
+  getTransport(): KB1Transport {
+    return this.transport;
+  }
 
   /**
    * Register a callback for connection status changes
@@ -77,109 +242,94 @@ export class BLEClient {
   }
 
   /**
-   * Check if Web Bluetooth is available in this browser
+   * Register a callback for settings changed on the device (e.g. a preset
+   * loaded from the hardware), delivered via characteristic notifications
+   */
+  setSettingsChangedCallback(callback: SettingsChangedCallback | null): void {
+    this.onSettingsChanged = callback;
+  }
+
+  /**
+   * Register a callback for battery level and charging changes
+   */
+  setBatteryChangedCallback(callback: BatteryChangedCallback | null): void {
+    this.onBatteryChanged = callback;
+  }
+
+  /**
+   * Register a callback for settings found changed by the background read-back
+   */
+  setSettingsDriftCallback(callback: SettingsDriftCallback | null): void {
+    this.onSettingsDrift = callback;
+  }
+
+  /**
+   * Check if the transport is available (Web Bluetooth support in this browser)
    */
   isBluetoothAvailable(): boolean {
-    return typeof navigator !== 'undefined' && 'bluetooth' in navigator;
+    return this.transport.isAvailable();
+  }
+
+  /**
+   * Identifier of the selected KB1, stable across reconnects (null if none)
+   */
+  getDeviceId(): string | null {
+    return this.transport.getDeviceId();
   }
 
   /**
    * Request connection to a KB1 device
-   * This must be called from a user gesture (e.g., button click)
+   * For Web Bluetooth this must be called from a user gesture (e.g., button click)
+   * @param excludeDeviceIds Devices to refuse (e.g. already open elsewhere); their link is left alone
    */
-  async connect(): Promise<void> {
+  async connect(excludeDeviceIds: readonly string[] = []): Promise<void> {
     if (!this.isBluetoothAvailable()) {
       const error = 'Web Bluetooth is not supported in this browser';
-      this.notifyStatusChange(false, error);
+      this.notifyStatusChange('disconnected', error);
       throw new Error(error);
     }
 
-    try {
-      // Request device with KB1 service filter
-      // Using KB1-specific custom service UUID
-      this.device = await navigator.bluetooth.requestDevice({
-        filters: [
-          { namePrefix: 'KB1' }
-        ],
-        optionalServices: [KB1_SERVICE_UUID]
-      });
-
-      if (!this.device) {
-        throw new Error('No device selected');
-      }
-
-      // Listen for disconnection
-      this.device.addEventListener('gattserverdisconnected', this.onDisconnected.bind(this));
-
-      // Connect to GATT server
-      this.server = await this.device.gatt!.connect();
-
-      // Get KB1 custom service using KB1-specific service UUID
-      const service = await this.server.getPrimaryService(KB1_SERVICE_UUID);
-
-      // Get MIDI I/O characteristic for read/write
-      this.characteristic = await service.getCharacteristic(MIDI_UUID);
+    this.cancelReconnect();
 
-      // Get all settings characteristics for direct read/write access
-      try {
-        this.lever1Characteristic = await service.getCharacteristic(LEVER1_SETTINGS_UUID);
-        this.leverPush1Characteristic = await service.getCharacteristic(LEVERPUSH1_SETTINGS_UUID);
-        this.lever2Characteristic = await service.getCharacteristic(LEVER2_SETTINGS_UUID);
-        this.leverPush2Characteristic = await service.getCharacteristic(LEVERPUSH2_SETTINGS_UUID);
-        this.touchCharacteristic = await service.getCharacteristic(TOUCH_SETTINGS_UUID);
-        this.scaleCharacteristic = await service.getCharacteristic(SCALE_SETTINGS_UUID);
-        this.systemCharacteristic = await service.getCharacteristic(SYSTEM_SETTINGS_UUID);
-      } catch (e) {
-        console.warn('⚠️ Some settings characteristics not available:', e);
-      }
-
-      // Try to get keepalive characteristic (optional, may not be in older firmware)
-      try {
-        this.keepAliveCharacteristic = await service.getCharacteristic(KEEPALIVE_UUID);
-        console.log('✅ Keep-alive characteristic found');
-      } catch (e) {
-        console.log('ℹ️ Keep-alive characteristic not available (connection may timeout after 10 minutes)');
+    try {
+      await this.transport.connect(KB1_CHARACTERISTIC_UUIDS);
+      const deviceId = this.transport.getDeviceId();
+      if (deviceId !== null && excludeDeviceIds.includes(deviceId)) {
+        await this.transport.release();
+        throw new Error('This KB1 is already connected');
       }
+      await this.startSession();
+      this.notifyStatusChange('connected');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.notifyStatusChange('disconnected', errorMessage);
+      throw error;
+    }
+  }
 
-      // Try to get preset characteristics (optional, may not be in older firmware)
-      try {
-        console.log('🔍 Looking for preset characteristics...');
-        this.presetSaveCharacteristic = await service.getCharacteristic(PRESET_CHARACTERISTIC_UUIDS.SAVE);
-        console.log('  ✅ SAVE found:', PRESET_CHARACTERISTIC_UUIDS.SAVE);
-        this.presetLoadCharacteristic = await service.getCharacteristic(PRESET_CHARACTERISTIC_UUIDS.LOAD);
-        console.log('  ✅ LOAD found:', PRESET_CHARACTERISTIC_UUIDS.LOAD);
-        this.presetListCharacteristic = await service.getCharacteristic(PRESET_CHARACTERISTIC_UUIDS.LIST);
-        console.log('  ✅ LIST found:', PRESET_CHARACTERISTIC_UUIDS.LIST);
-        this.presetDeleteCharacteristic = await service.getCharacteristic(PRESET_CHARACTERISTIC_UUIDS.DELETE);
-        console.log('  ✅ DELETE found:', PRESET_CHARACTERISTIC_UUIDS.DELETE);
-        console.log('✅ All preset characteristics found');
-      } catch (e) {
-        console.log('ℹ️ Preset characteristics not available (requires updated firmware)');
-        console.log('   Expected UUIDs:');
-        console.log('   - SAVE:', PRESET_CHARACTERISTIC_UUIDS.SAVE);
-        console.log('   - LOAD:', PRESET_CHARACTERISTIC_UUIDS.LOAD);
-        console.log('   - LIST:', PRESET_CHARACTERISTIC_UUIDS.LIST);
-        console.log('   - DELETE:', PRESET_CHARACTERISTIC_UUIDS.DELETE);
-        console.log('   Error:', e);
-      }
+  /**
+   * Silently connect to a previously granted KB1 (no chooser)
+   * Intended for page load; resolves false if no remembered device is reachable.
+   */
+  async connectRemembered(): Promise<boolean> {
+    if (!this.isBluetoothAvailable()) {
+      return false;
+    }
+    if (this.isConnected()) {
+      return true;
+    }
 
-      // Start notifications if supported
-      try {
-        await this.characteristic.startNotifications();
-        this.characteristic.addEventListener('characteristicvaluechanged', 
-          this.onCharacteristicValueChanged.bind(this));
-      } catch (e) {
-        console.warn('Notifications not supported:', e);
+    try {
+      if (!await this.transport.connectRemembered(KB1_CHARACTERISTIC_UUIDS)) {
+        return false;
       }
-
-      // Start keep-alive timer to maintain connection
-      this.startKeepAlive();
-
-      this.notifyStatusChange(true);
+      await this.startSession();
+      this.notifyStatusChange('connected');
+      console.log('✅ Auto-connected to remembered device');
+      return true;
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      this.notifyStatusChange(false, errorMessage);
-      throw error;
+      console.warn('Auto-connect to remembered device failed:', error);
+      return false;
     }
   }
 
@@ -187,23 +337,38 @@ export class BLEClient {
    * Disconnect from the current device
    */
   async disconnect(): Promise<void> {
-    if (this.device && this.device.gatt && this.device.gatt.connected) {
-      this.device.gatt.disconnect();
-    }
+    this.cancelReconnect();
+    await this.transport.disconnect();
     this.cleanup();
-    this.notifyStatusChange(false);
+    this.notifyStatusChange('disconnected');
+  }
+
+  /**
+   * Configure automatic reconnection after unexpected link loss
+   * @param enabled Whether to reconnect automatically
+   * @param maxAttempts Attempts before giving up (default: 8)
+   * @param baseDelayMs First retry delay, doubled per attempt (default: 1000)
+   */
+  setAutoReconnect(enabled: boolean, maxAttempts: number = 8, baseDelayMs: number = 1000): void {
+    this.autoReconnectEnabled = enabled;
+    this.reconnectMaxAttempts = maxAttempts;
+    this.reconnectBaseDelayMs = baseDelayMs;
+
+    if (!enabled) {
+      this.cancelReconnect();
+    }
   }
 
   /**
    * Send data to the connected device
    */
   async sendData(data: ArrayBuffer): Promise<void> {
-    if (!this.characteristic) {
+    if (!this.transport.isConnected()) {
       throw new Error('Not connected to device');
     }
 
     try {
-      await this.characteristic.writeValue(data);
+      await this.queuedWrite(MIDI_UUID, data, 'MIDI write');
     } catch (error) {
       console.error('Failed to send data:', error);
       throw error;
@@ -212,48 +377,94 @@ export class BLEClient {
 
   /**
    * Send MIDI Control Change message
-   * Sends ASCII "CC_NUMBER,VALUE" to the MIDI characteristic
+   * Sends ASCII "CC_NUMBER,VALUE" to the MIDI characteristic. Rapid updates
+   * to the same controller are coalesced so the latest value is always sent.
    * @param cc Control change number (0-127)
    * @param value Control change value (0-127)
    */
   async sendControlChange(cc: number, value: number): Promise<void> {
-    console.log(`🎹 Sending MIDI CC #${cc} = ${value}`);
-    
-    // Throttle MIDI sends to avoid overwhelming the BLE connection
-    const now = performance.now();
-    if (now - this.lastMidiSendMs < this.midiThrottleMs) {
-      console.log(`⏸️ Throttled (too soon)`);
-      return;
-    }
-    this.lastMidiSendMs = now;
+    await this.sendControlChanges([{ cc, value }]);
+  }
 
-    if (!this.characteristic) {
+  /**
+   * Send several MIDI Control Changes together (e.g. a slider gang)
+   * With batch-capable firmware they share one write; otherwise each pair
+   * is its own write, 8ms apart like any other CC.
+   */
+  async sendControlChanges(pairs: CCPair[]): Promise<void> {
+    if (!this.transport.isConnected()) {
       console.error('❌ Not connected to device');
       throw new Error('Not connected to device');
     }
 
+    this.lastMidiActivityAt = Date.now();
+    await this.ccCoalescer.pushMany(pairs);
+  }
+
+  /**
+   * Enable "CC,VALUE;CC,VALUE" batched MIDI writes
+   * Set from the device capabilities on connect; older firmware would drop
+   * the whole write.
+   */
+  private setMidiBatching(enabled: boolean): void {
+    this.ccCoalescer.setBatchSender(
+      enabled ? (pairs) => this.writeControlChangeBatch(pairs) : null,
+      MIDI_BATCH_MAX_PAIRS
+    );
+    console.log(`🎛️ Batched MIDI CC writes ${enabled ? 'enabled' : 'disabled'}`);
+  }
+
+  /**
+   * Check whether live MIDI was sent or received in the last few seconds
+   */
+  isMidiActive(): boolean {
+    return Date.now() - this.lastMidiActivityAt < this.midiQuietMs;
+  }
+
+  /**
+   * Get live MIDI CC counters (values sent vs. coalesced) for diagnostics
+   */
+  getMidiStats(): CCCoalescerStats {
+    return this.ccCoalescer.getStats();
+  }
+
+  /**
+   * Write a single CC to the MIDI characteristic (called by the coalescer)
+   */
+  private async writeControlChange(cc: number, value: number): Promise<void> {
     try {
-      const encoder = new TextEncoder();
-      const message = `${cc},${value}`;
-      console.log(`📤 Writing to MIDI characteristic: "${message}"`);
-      await this.characteristic.writeValueWithoutResponse(encoder.encode(message));
-      console.log(`✅ MIDI CC sent successfully`);
+      console.log(`📤 Writing to MIDI characteristic: "${cc},${value}"`);
+      await this.queuedWrite(MIDI_UUID, encodeControlChange(cc, value) as BufferSource, `MIDI CC ${cc}`, OperationPriority.LIVE_MIDI, true);
     } catch (error) {
       console.error('Failed to send MIDI CC:', error);
       throw error;
     }
   }
 
+  /**
+   * Write several CCs in one MIDI characteristic write (called by the coalescer)
+   */
+  private async writeControlChangeBatch(pairs: CCPair[]): Promise<void> {
+    try {
+      const data = encodeControlChangeBatch(pairs);
+      console.log(`📤 Writing to MIDI characteristic: "${new TextDecoder().decode(data)}"`);
+      await this.queuedWrite(MIDI_UUID, data as BufferSource, `MIDI CC batch (${pairs.length})`, OperationPriority.LIVE_MIDI, true);
+    } catch (error) {
+      console.error('Failed to send MIDI CC batch:', error);
+      throw error;
+    }
+  }
+
   /**
    * Read data from the connected device
    */
   async readData(): Promise<DataView> {
-    if (!this.characteristic) {
+    if (!this.transport.isConnected()) {
       throw new Error('Not connected to device');
     }
 
     try {
-      const value = await this.characteristic.readValue();
+      const value = await this.queuedRead(MIDI_UUID, 'MIDI read');
       return value;
     } catch (error) {
       console.error('Failed to read data:', error);
@@ -263,74 +474,21 @@ export class BLEClient {
 
   /**
    * Read all settings from the device characteristics
+   * Sections whose characteristic is unavailable are omitted
    */
-  async readAllSettings(): Promise<{
-    lever1?: LeverSettings;
-    leverPush1?: LeverPushSettings;
-    lever2?: LeverSettings;
-    leverPush2?: LeverPushSettings;
-    touch?: TouchSettings;
-    scale?: ScaleSettings;
-    system?: SystemSettings;
-  }> {
-    if (!this.server?.connected) {
+  async readAllSettings(): Promise<Partial<DeviceSettings>> {
+    if (!this.transport.isConnected()) {
       throw new Error('Not connected to device');
     }
 
     try {
-      const settings: {
-        lever1?: LeverSettings;
-        leverPush1?: LeverPushSettings;
-        lever2?: LeverSettings;
-        leverPush2?: LeverPushSettings;
-        touch?: TouchSettings;
-        scale?: ScaleSettings;
-        system?: SystemSettings;
-      } = {};
-
-      // Read Lever 1 settings
-      if (this.lever1Characteristic) {
-        const data = await this.lever1Characteristic.readValue();
-        settings.lever1 = this.parseLeverData(data);
-      }
-
-      // Read Lever Push 1 settings
-      if (this.leverPush1Characteristic) {
-        const data = await this.leverPush1Characteristic.readValue();
-        settings.leverPush1 = this.parseLeverPushData(data);
-      }
-
-      // Read Lever 2 settings
-      if (this.lever2Characteristic) {
-        const data = await this.lever2Characteristic.readValue();
-        settings.lever2 = this.parseLeverData(data);
-      }
-
-      // Read Lever Push 2 settings
-      if (this.leverPush2Characteristic) {
-        const data = await this.leverPush2Characteristic.readValue();
-        settings.leverPush2 = this.parseLeverPushData(data);
-      }
-
-      // Read Touch settings
-      if (this.touchCharacteristic) {
-        const data = await this.touchCharacteristic.readValue();
-        settings.touch = this.parseTouchData(data);
-      }
-
-      // Read Scale settings
-      if (this.scaleCharacteristic) {
-        const data = await this.scaleCharacteristic.readValue();
-        settings.scale = this.parseScaleData(data);
-      }
-
-      // Read System settings
-      if (this.systemCharacteristic) {
-        const data = await this.systemCharacteristic.readValue();
-        settings.system = this.parseSystemData(data);
+      const settings: Partial<Record<SettingsSection, unknown>> = {};
+      for (const section of SETTINGS_SECTIONS) {
+        if (this.hasSettingsSection(section)) {
+          settings[section] = await this.readSection(section);
+        }
       }
-
-      return settings;
+      return settings as Partial<DeviceSettings>;
     } catch (error) {
       console.error('Failed to read settings:', error);
       throw error;
@@ -338,403 +496,305 @@ export class BLEClient {
   }
 
   /**
-   * Parse lever data from DataView (little-endian int32)
+   * Check if the device exposes a settings section
    */
-  private parseLeverData(data: DataView): LeverSettings {
-    return {
-      ccNumber: data.getInt32(0, true),
-      minCCValue: data.getInt32(4, true),
-      maxCCValue: data.getInt32(8, true),
-      stepSize: data.getInt32(12, true),
-      functionMode: data.getInt32(16, true),
-      valueMode: data.getInt32(20, true),
-      onsetTime: data.getInt32(24, true),
-      offsetTime: data.getInt32(28, true),
-      onsetType: data.getInt32(32, true),
-      offsetType: data.getInt32(36, true),
-    };
+  hasSettingsSection(section: SettingsSection): boolean {
+    return this.transport.hasCharacteristic(SETTINGS_LAYOUTS[section].uuid);
   }
 
   /**
-   * Parse lever push data from DataView (little-endian int32)
+   * Read and decode a single settings section
    */
-  private parseLeverPushData(data: DataView): LeverPushSettings {
-    return {
-      ccNumber: data.getInt32(0, true),
-      minCCValue: data.getInt32(4, true),
-      maxCCValue: data.getInt32(8, true),
-      functionMode: data.getInt32(12, true),
-      onsetTime: data.getInt32(16, true),
-      offsetTime: data.getInt32(20, true),
-      onsetType: data.getInt32(24, true),
-      offsetType: data.getInt32(28, true),
-    };
+  async readSection<S extends SettingsSection>(section: S): Promise<DeviceSettings[S]> {
+    return decodeSection(section, await this.readSectionBytes(section));
   }
 
   /**
-   * Parse touch data from DataView (little-endian int32)
+   * Read a settings section's raw characteristic bytes
    */
-  private parseTouchData(data: DataView): TouchSettings {
-    return {
-      ccNumber: data.getInt32(0, true),
-      minCCValue: data.getInt32(4, true),
-      maxCCValue: data.getInt32(8, true),
-      functionMode: data.getInt32(12, true),
-    };
-  }
+  async readSectionBytes(section: SettingsSection): Promise<DataView> {
+    if (!this.hasSettingsSection(section)) {
+      throw new Error(`${section} settings characteristic not available`);
+    }
 
-  /**
-   * Parse scale data from DataView (little-endian int32)
-   */
-  private parseScaleData(data: DataView): ScaleSettings {
-    return {
-      scaleType: data.getInt32(0, true),
-      rootNote: data.getInt32(4, true),
-      keyMapping: data.getInt32(8, true),
-    };
+    const data = await this.queuedRead(SETTINGS_LAYOUTS[section].uuid, `${section} read`);
+    this.lastSettingsPayloads[section] = data;
+    return data;
   }
 
   /**
-   * Parse system settings data from DataView (little-endian int32)
-   * Note: Only reads first 3 values (light/deep sleep, BLE timeout)
-   * idleConfirmTimeout is kept internal to firmware
+   * Encode and write a single settings section, returning the bytes written
+   * Layouts with firmware-internal fields (or optional fields the settings
+   * leave out) re-read the current value first so those fields are written
+   * back unchanged
    */
-  private parseSystemData(data: DataView): SystemSettings {
-    return {
-      lightSleepTimeout: data.getInt32(0, true),
-      deepSleepTimeout: data.getInt32(4, true),
-      bleTimeout: data.getInt32(8, true),
-    };
-  }
+  async writeSection<S extends SettingsSection>(section: S, settings: DeviceSettings[S]): Promise<DataView> {
+    if (!this.hasSettingsSection(section)) {
+      throw new Error(`${section} settings characteristic not available`);
+    }
 
-  /**
-   * Encode system settings to binary format for writing to device
-   * Note: Only writes first 3 values, preserving firmware's idleConfirmTimeout
-   * Firmware expects 16 bytes (4 int32), so we pad with existing value
-   */
-  private async encodeSystemData(settings: SystemSettings): Promise<ArrayBuffer> {
-    // Read current settings from device to preserve idleConfirmTimeout
-    let existingIdleConfirm = 2; // default fallback
-    if (this.systemCharacteristic) {
-      try {
-        const currentData = await this.systemCharacteristic.readValue();
-        if (currentData.byteLength >= 16) {
-          existingIdleConfirm = currentData.getInt32(12, true);
+    const uuid = SETTINGS_LAYOUTS[section].uuid;
+    try {
+      if (needsPreviousPayload(section, settings)) {
+        try {
+          this.lastSettingsPayloads[section] = await this.queuedRead(uuid, `${section} read`);
+        } catch (e) {
+          console.warn(`Could not read existing ${section} settings, using cached or default values`);
         }
-      } catch (e) {
-        console.warn('Could not read existing idleConfirmTimeout, using default');
       }
-    }
 
-    const buffer = new ArrayBuffer(16); // 4 int32 values = 16 bytes
-    const view = new DataView(buffer);
-    view.setInt32(0, settings.lightSleepTimeout, true);
-    view.setInt32(4, settings.deepSleepTimeout, true);
-    view.setInt32(8, settings.bleTimeout, true);
-    view.setInt32(12, existingIdleConfirm, true); // preserve firmware value
-    return buffer;
+      const data = new DataView(encodeSection(section, settings, this.lastSettingsPayloads[section]));
+      await this.writeSectionBytes(section, data);
+      console.log(`${section} settings written to device:`, settings);
+      return data;
+    } catch (error) {
+      console.error(`Failed to write ${section} settings:`, error);
+      throw error;
+    }
   }
 
   /**
-   * Write system settings to device
+   * Write a settings section's raw characteristic bytes (e.g. restoring a
+   * value read earlier, firmware-internal fields included)
    */
-  async writeSystemSettings(settings: SystemSettings): Promise<void> {
-    if (!this.systemCharacteristic) {
-      throw new Error('System settings characteristic not available');
+  async writeSectionBytes(section: SettingsSection, data: DataView): Promise<void> {
+    if (!this.hasSettingsSection(section)) {
+      throw new Error(`${section} settings characteristic not available`);
     }
 
+    this.pendingSettingsWrites[section] = data;
     try {
-      const data = await this.encodeSystemData(settings);
-      await this.systemCharacteristic.writeValue(data);
-      console.log('System settings written to device:', settings);
-    } catch (error) {
-      console.error('Failed to write system settings:', error);
-      throw error;
+      await this.queuedWrite(SETTINGS_LAYOUTS[section].uuid, data as BufferSource, `${section} write`);
+    } finally {
+      delete this.pendingSettingsWrites[section];
     }
+    this.lastSettingsPayloads[section] = data;
   }
 
   /**
-   * Encode lever settings to binary format for writing to device
+   * Write system settings to device
    */
-  private encodeLeverData(settings: LeverSettings): ArrayBuffer {
-    const buffer = new ArrayBuffer(40); // 10 int32 values = 40 bytes
-    const view = new DataView(buffer);
-    view.setInt32(0, settings.ccNumber, true);
-    view.setInt32(4, settings.minCCValue, true);
-    view.setInt32(8, settings.maxCCValue, true);
-    view.setInt32(12, settings.stepSize, true);
-    view.setInt32(16, settings.functionMode, true);
-    view.setInt32(20, settings.valueMode, true);
-    view.setInt32(24, settings.onsetTime, true);
-    view.setInt32(28, settings.offsetTime, true);
-    view.setInt32(32, settings.onsetType, true);
-    view.setInt32(36, settings.offsetType, true);
-    return buffer;
+  async writeSystemSettings(settings: SystemSettings): Promise<void> {
+    await this.writeSection('system', settings);
   }
 
   /**
-   * Encode lever push settings to binary format for writing to device
+   * Write lever 1 settings to device
    */
-  private encodeLeverPushData(settings: LeverPushSettings): ArrayBuffer {
-    const buffer = new ArrayBuffer(32); // 8 int32 values = 32 bytes
-    const view = new DataView(buffer);
-    view.setInt32(0, settings.ccNumber, true);
-    view.setInt32(4, settings.minCCValue, true);
-    view.setInt32(8, settings.maxCCValue, true);
-    view.setInt32(12, settings.functionMode, true);
-    view.setInt32(16, settings.onsetTime, true);
-    view.setInt32(20, settings.offsetTime, true);
-    view.setInt32(24, settings.onsetType, true);
-    view.setInt32(28, settings.offsetType, true);
-    return buffer;
+  async writeLever1Settings(settings: LeverSettings): Promise<void> {
+    await this.writeSection('lever1', settings);
   }
 
   /**
-   * Encode touch settings to binary format for writing to device
+   * Write lever push 1 settings to device
    */
-  private encodeTouchData(settings: TouchSettings): ArrayBuffer {
-    const buffer = new ArrayBuffer(20); // 5 int32 values = 20 bytes
-    const view = new DataView(buffer);
-    view.setInt32(0, settings.ccNumber, true);
-    view.setInt32(4, settings.minCCValue, true);
-    view.setInt32(8, settings.maxCCValue, true);
-    view.setInt32(12, settings.functionMode, true);
-    view.setInt32(16, settings.threshold || 24000, true); // Default threshold if not set
-    return buffer;
+  async writeLeverPush1Settings(settings: LeverPushSettings): Promise<void> {
+    await this.writeSection('leverPush1', settings);
   }
 
   /**
-   * Encode scale settings to binary format for writing to device
+   * Write lever 2 settings to device
    */
-  private encodeScaleData(settings: ScaleSettings): ArrayBuffer {
-    const buffer = new ArrayBuffer(12); // 3 int32 values = 12 bytes
-    const view = new DataView(buffer);
-    view.setInt32(0, settings.scaleType, true);
-    view.setInt32(4, settings.rootNote, true);
-    view.setInt32(8, settings.keyMapping, true);
-    return buffer;
+  async writeLever2Settings(settings: LeverSettings): Promise<void> {
+    await this.writeSection('lever2', settings);
   }
 
   /**
-   * Write lever 1 settings to device
+   * Write lever push 2 settings to device
    */
-  async writeLever1Settings(settings: LeverSettings): Promise<void> {
-    if (!this.lever1Characteristic) {
-      throw new Error('Lever 1 settings characteristic not available');
-    }
-
-    try {
-      const data = this.encodeLeverData(settings);
-      await this.lever1Characteristic.writeValue(data);
-      console.log('Lever 1 settings written to device:', settings);
-    } catch (error) {
-      console.error('Failed to write lever 1 settings:', error);
-      throw error;
-    }
+  async writeLeverPush2Settings(settings: LeverPushSettings): Promise<void> {
+    await this.writeSection('leverPush2', settings);
   }
 
   /**
-   * Write lever push 1 settings to device
+   * Write touch settings to device
    */
-  async writeLeverPush1Settings(settings: LeverPushSettings): Promise<void> {
-    if (!this.leverPush1Characteristic) {
-      throw new Error('Lever Push 1 settings characteristic not available');
-    }
+  async writeTouchSettings(settings: TouchSettings): Promise<void> {
+    await this.writeSection('touch', settings);
+  }
 
-    try {
-      const data = this.encodeLeverPushData(settings);
-      await this.leverPush1Characteristic.writeValue(data);
-      console.log('Lever Push 1 settings written to device:', settings);
-    } catch (error) {
-      console.error('Failed to write lever push 1 settings:', error);
-      throw error;
-    }
+  /**
+   * Write scale settings to device
+   */
+  async writeScaleSettings(settings: ScaleSettings): Promise<void> {
+    await this.writeSection('scale', settings);
   }
 
   /**
-   * Write lever 2 settings to device
+   * Enter audition mode: settings writes stay in RAM until committed or reverted
    */
-  async writeLever2Settings(settings: LeverSettings): Promise<void> {
-    if (!this.lever2Characteristic) {
-      throw new Error('Lever 2 settings characteristic not available');
-    }
+  async beginAudition(): Promise<void> {
+    await this.sendWriteModeCommand(WriteModeCommand.AUDITION, 'audition begin');
+    this.auditioning = true;
+    console.log('🎧 Audition mode on (settings writes are not persisted)');
+  }
 
-    try {
-      const data = this.encodeLeverData(settings);
-      await this.lever2Characteristic.writeValue(data);
-      console.log('Lever 2 settings written to device:', settings);
-    } catch (error) {
-      console.error('Failed to write lever 2 settings:', error);
-      throw error;
-    }
+  /**
+   * Persist the auditioned settings to flash and leave audition mode
+   */
+  async commitAudition(): Promise<void> {
+    await this.sendWriteModeCommand(WriteModeCommand.COMMIT, 'audition commit');
+    this.auditioning = false;
+    console.log('💾 Audition committed to flash');
   }
 
   /**
-   * Write lever push 2 settings to device
+   * Restore the last persisted settings and leave audition mode
+   * The device's own change notifications are not reported; read the
+   * settings back afterwards.
    */
-  async writeLeverPush2Settings(settings: LeverPushSettings): Promise<void> {
-    if (!this.leverPush2Characteristic) {
-      throw new Error('Lever Push 2 settings characteristic not available');
-    }
+  async revertAudition(): Promise<void> {
+    await this.withSettingsSyncHeld(() =>
+      this.sendWriteModeCommand(WriteModeCommand.REVERT, 'audition revert')
+    );
+    this.auditioning = false;
+    console.log('↩️ Audition reverted to persisted settings');
+  }
 
-    try {
-      const data = this.encodeLeverPushData(settings);
-      await this.leverPush2Characteristic.writeValue(data);
-      console.log('Lever Push 2 settings written to device:', settings);
-    } catch (error) {
-      console.error('Failed to write lever push 2 settings:', error);
-      throw error;
-    }
+  isAuditioning(): boolean {
+    return this.auditioning;
   }
 
   /**
-   * Write touch settings to device
+   * Read the device's write mode (audition state and unsaved RAM changes)
    */
-  async writeTouchSettings(settings: TouchSettings): Promise<void> {
-    if (!this.touchCharacteristic) {
-      throw new Error('Touch settings characteristic not available');
+  async readWriteMode(): Promise<WriteModeState> {
+    if (!this.hasFeature('audition')) {
+      throw new Error(firmwareUpdateMessage('audition', this.capabilities));
+    }
+    return decodeWriteModeState(await this.queuedRead(WRITE_MODE_UUID, 'write mode read'));
+  }
+
+  private async sendWriteModeCommand(command: WriteModeCommand, label: string): Promise<void> {
+    if (!this.hasFeature('audition')) {
+      throw new Error(firmwareUpdateMessage('audition', this.capabilities));
     }
 
     try {
-      const data = this.encodeTouchData(settings);
-      await this.touchCharacteristic.writeValue(data);
-      console.log('Touch settings written to device:', settings);
+      await this.queuedWrite(WRITE_MODE_UUID, encodeWriteModeCommand(command) as BufferSource, label);
     } catch (error) {
-      console.error('Failed to write touch settings:', error);
+      console.error(`Failed to send ${label}:`, error);
       throw error;
     }
   }
 
   /**
-   * Write scale settings to device
+   * Reset part of the device to firmware defaults (persisted immediately)
+   * Resets that touch settings also end audition mode. The device's change
+   * notifications are not reported; read the reset data back afterwards.
    */
-  async writeScaleSettings(settings: ScaleSettings): Promise<void> {
-    if (!this.scaleCharacteristic) {
-      throw new Error('Scale settings characteristic not available');
+  async resetDevice(scope: DeviceResetScope, section?: SettingsSection): Promise<void> {
+    if (!this.hasFeature('deviceReset')) {
+      throw new Error(firmwareUpdateMessage('deviceReset', this.capabilities));
     }
 
+    const label = `device reset (${DeviceResetScope[scope].toLowerCase()}${section ? ` ${section}` : ''})`;
     try {
-      const data = this.encodeScaleData(settings);
-      await this.scaleCharacteristic.writeValue(data);
-      console.log('Scale settings written to device:', settings);
+      await this.withSettingsSyncHeld(() =>
+        this.queuedWrite(DEVICE_RESET_UUID, encodeDeviceReset(scope, section) as BufferSource, label)
+      );
+      if (scope === DeviceResetScope.FACTORY || scope === DeviceResetScope.SETTINGS || scope === DeviceResetScope.SECTION) {
+        this.auditioning = false;
+      }
+      console.log(`🧹 ${label} complete`);
     } catch (error) {
-      console.error('Failed to write scale settings:', error);
+      console.error('Failed to reset device:', error);
       throw error;
     }
   }
 
   /**
-   * Write all settings to device
+   * Read the firmware's default settings
+   * Sections the firmware doesn't report are omitted.
    */
-  async writeAllSettings(settings: DeviceSettings): Promise<void> {
-    if (!this.server?.connected) {
-      throw new Error('Not connected to device');
+  async readFactoryDefaults(): Promise<Partial<DeviceSettings>> {
+    if (!this.hasFeature('deviceReset')) {
+      throw new Error(firmwareUpdateMessage('deviceReset', this.capabilities));
     }
 
-    const errors: string[] = [];
-    
-    try {
-      console.log('Writing lever1 settings...');
-      await this.writeLever1Settings(settings.lever1);
-      console.log('✓ Lever1 settings written');
-    } catch (error) {
-      const msg = `Failed to write lever1 settings: ${error}`;
-      console.warn(msg);
-      errors.push(msg);
-    }
-
-    try {
-      console.log('Writing leverPush1 settings...');
-      await this.writeLeverPush1Settings(settings.leverPush1);
-      console.log('✓ LeverPush1 settings written');
-    } catch (error) {
-      const msg = `Failed to write leverPush1 settings: ${error}`;
-      console.warn(msg);
-      errors.push(msg);
-    }
+    const payloads = decodeFactoryDefaults(await this.queuedRead(DEVICE_RESET_UUID, 'factory defaults read'));
+    return kb1Protocol.decodeSettings(payloads);
+  }
 
-    try {
-      console.log('Writing lever2 settings...');
-      await this.writeLever2Settings(settings.lever2);
-      console.log('✓ Lever2 settings written');
-    } catch (error) {
-      const msg = `Failed to write lever2 settings: ${error}`;
-      console.warn(msg);
-      errors.push(msg);
+  /**
+   * Read every fader's CC mapping and the device's fader count
+   */
+  async readCCMappings(): Promise<CCMappingTable> {
+    if (!this.hasFeature('ccMappings')) {
+      throw new Error(firmwareUpdateMessage('ccMappings', this.capabilities));
     }
 
     try {
-      console.log('Writing leverPush2 settings...');
-      await this.writeLeverPush2Settings(settings.leverPush2);
-      console.log('✓ LeverPush2 settings written');
+      const table = kb1Protocol.decodeCCMappings(await this.queuedRead(CC_MAPPING_UUID, 'CC mapping read'));
+      this.faderCount = table.faderCount;
+      return table;
     } catch (error) {
-      const msg = `Failed to write leverPush2 settings: ${error}`;
-      console.warn(msg);
-      errors.push(msg);
+      console.error('Failed to read CC mappings:', error);
+      throw error;
     }
+  }
 
-    try {
-      console.log('Writing touch settings...');
-      await this.writeTouchSettings(settings.touch);
-      console.log('✓ Touch settings written');
-    } catch (error) {
-      const msg = `Failed to write touch settings: ${error}`;
-      console.warn(msg);
-      errors.push(msg);
+  /**
+   * Write a single fader's CC mapping
+   * Validated against the device's real fader count (read first if unknown).
+   */
+  async writeCCMapping(mapping: CCMapping): Promise<void> {
+    if (!this.hasFeature('ccMappings')) {
+      throw new Error(firmwareUpdateMessage('ccMappings', this.capabilities));
     }
 
-    try {
-      console.log('Writing scale settings...');
-      await this.writeScaleSettings(settings.scale);
-      console.log('✓ Scale settings written');
-    } catch (error) {
-      const msg = `Failed to write scale settings: ${error}`;
-      console.warn(msg);
-      errors.push(msg);
+    const faderCount = this.faderCount ?? (await this.readCCMappings()).faderCount;
+    if (!kb1Protocol.validateCCMapping(mapping, faderCount)) {
+      throw new Error(`Invalid CC mapping for fader ${mapping.faderIndex} (device has ${faderCount} faders)`);
     }
 
     try {
-      console.log('Writing system settings...');
-      await this.writeSystemSettings(settings.system);
-      console.log('✓ System settings written');
+      await this.queuedWrite(CC_MAPPING_UUID, kb1Protocol.encodeSetCCMapping(mapping), `CC mapping write ${mapping.faderIndex}`);
+      console.log(`✅ Fader ${mapping.faderIndex} mapped to CC ${mapping.ccNumber}`);
     } catch (error) {
-      const msg = `Failed to write system settings: ${error}`;
-      console.warn(msg);
-      errors.push(msg);
+      console.error('Failed to write CC mapping:', error);
+      throw error;
     }
+  }
 
-    if (errors.length > 0) {
-      console.warn(`⚠️ ${errors.length} setting(s) failed to write:`, errors);
-      // Only throw if ALL settings failed
-      if (errors.length === 7) {
-        throw new Error('Failed to write any settings to device');
-      }
-      // Otherwise just log warnings but don't throw (partial success)
-    }
-    
-    console.log(`✅ Settings written (${7 - errors.length}/7 successful)`);
+  /**
+   * Number of faders reported by the device (null until mappings are read)
+   */
+  getFaderCount(): number | null {
+    return this.faderCount;
   }
 
   /**
    * Check if device supports preset management
    */
   hasDevicePresetSupport(): boolean {
-    return this.presetSaveCharacteristic !== null &&
-           this.presetLoadCharacteristic !== null &&
-           this.presetListCharacteristic !== null &&
-           this.presetDeleteCharacteristic !== null;
+    return this.hasFeature('presets');
+  }
+
+  /**
+   * Firmware version and features of the connected device (null when disconnected)
+   */
+  getCapabilities(): DeviceCapabilities | null {
+    return this.capabilities;
+  }
+
+  /**
+   * Check if the connected firmware supports a feature
+   */
+  hasFeature(feature: DeviceFeature): boolean {
+    return this.capabilities?.features[feature] ?? false;
   }
 
   /**
    * List all device preset slots
    */
   async listDevicePresets(): Promise<DevicePresetMetadata[]> {
-    if (!this.presetListCharacteristic) {
+    if (!this.transport.hasCharacteristic(PRESET_CHARACTERISTIC_UUIDS.LIST)) {
       throw new Error('Device presets not supported');
     }
 
     try {
-      const dataView = await this.presetListCharacteristic.readValue();
+      const dataView = await this.queuedRead(PRESET_CHARACTERISTIC_UUIDS.LIST, 'preset list');
       const presets = decodePresetList(dataView);
       console.log('📋 Device presets:', presets);
       return presets;
@@ -746,16 +806,17 @@ export class BLEClient {
 
   /**
    * Save current settings to device preset slot
+   * @param timestamp Unix seconds to store (defaults to now); pass the original to keep it
    */
-  async saveDevicePreset(slot: number, name: string): Promise<void> {
-    if (!this.presetSaveCharacteristic) {
+  async saveDevicePreset(slot: number, name: string, timestamp?: number): Promise<void> {
+    if (!this.transport.hasCharacteristic(PRESET_CHARACTERISTIC_UUIDS.SAVE)) {
       throw new Error('Device presets not supported');
     }
 
     try {
-      const data = encodePresetSave(slot, name);
+      const data = encodePresetSave(slot, name, timestamp);
       console.log(`📤 Sending save command - Slot: ${slot}, Name: "${name}", Data bytes:`, Array.from(data));
-      await this.presetSaveCharacteristic.writeValue(data as BufferSource);
+      await this.queuedWrite(PRESET_CHARACTERISTIC_UUIDS.SAVE, data as BufferSource, `preset save ${slot}`);
       console.log(`✅ Write completed for slot ${slot}: ${name}`);
     } catch (error) {
       console.error('Failed to save device preset:', error);
@@ -767,13 +828,13 @@ export class BLEClient {
    * Load settings from device preset slot
    */
   async loadDevicePreset(slot: number): Promise<void> {
-    if (!this.presetLoadCharacteristic) {
+    if (!this.transport.hasCharacteristic(PRESET_CHARACTERISTIC_UUIDS.LOAD)) {
       throw new Error('Device presets not supported');
     }
 
     try {
       const data = encodePresetLoad(slot);
-      await this.presetLoadCharacteristic.writeValue(data as BufferSource);
+      await this.queuedWrite(PRESET_CHARACTERISTIC_UUIDS.LOAD, data as BufferSource, `preset load ${slot}`);
       console.log(`📥 Loaded from device preset slot ${slot}`);
       
       // After loading, settings will be automatically updated via notifications
@@ -788,13 +849,13 @@ export class BLEClient {
    * Delete device preset slot
    */
   async deleteDevicePreset(slot: number): Promise<void> {
-    if (!this.presetDeleteCharacteristic) {
+    if (!this.transport.hasCharacteristic(PRESET_CHARACTERISTIC_UUIDS.DELETE)) {
       throw new Error('Device presets not supported');
     }
 
     try {
       const data = encodePresetDelete(slot);
-      await this.presetDeleteCharacteristic.writeValue(data as BufferSource);
+      await this.queuedWrite(PRESET_CHARACTERISTIC_UUIDS.DELETE, data as BufferSource, `preset delete ${slot}`);
       console.log(`🗑️ Deleted device preset slot ${slot}`);
     } catch (error) {
       console.error('Failed to delete device preset:', error);
@@ -802,14 +863,245 @@ export class BLEClient {
     }
   }
 
+  /**
+   * Copy, move or swap preset slots with the firmware's native slot operation
+   * Names and timestamps are kept by the firmware.
+   */
+  async transferDevicePreset(operation: PresetSlotOperation, from: number, to: number): Promise<void> {
+    if (!this.hasFeature('presetSlotOps')) {
+      throw new Error(firmwareUpdateMessage('presetSlotOps', this.capabilities));
+    }
+
+    const label = `preset ${PresetSlotOperation[operation].toLowerCase()} ${from}->${to}`;
+    try {
+      const data = encodePresetSlotOperation(operation, from, to);
+      await this.queuedWrite(PRESET_CHARACTERISTIC_UUIDS.SLOT_OP, data as BufferSource, label);
+      console.log(`🔀 Device ${label} complete`);
+    } catch (error) {
+      console.error('Failed to transfer device preset:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a sequence that temporarily changes the active settings (e.g. loading
+   * slots to rearrange them) without reporting those changes to the UI
+   * The sequence is expected to put the active settings back before it ends.
+   */
+  async withSettingsSyncHeld<T>(run: () => Promise<T>): Promise<T> {
+    this.settingsSyncHolds++;
+    try {
+      return await run();
+    } finally {
+      this.settingsSyncHolds--;
+    }
+  }
+
+  /**
+   * Read every settings section back and report those whose bytes no longer
+   * match the last ones seen (e.g. changed by another app without notifying)
+   * Reads are low priority and stop early once live MIDI starts. Sections
+   * being written, or updated while their read was queued, are skipped.
+   */
+  async checkSettingsDrift(): Promise<SettingsDrift[]> {
+    const drift: SettingsDrift[] = [];
+    for (const section of SETTINGS_SECTIONS) {
+      if (!this.isConnected() || this.isMidiActive()) {
+        break;
+      }
+      const known = this.lastSettingsPayloads[section];
+      if (!known || this.pendingSettingsWrites[section] || !this.hasSettingsSection(section)) {
+        continue;
+      }
+
+      const data = await this.queuedRead(SETTINGS_LAYOUTS[section].uuid, `${section} drift check`, OperationPriority.KEEPALIVE);
+      if (this.lastSettingsPayloads[section] !== known || this.pendingSettingsWrites[section]) {
+        continue;
+      }
+      const hash = hashBytes(data);
+      if (hash !== hashBytes(known)) {
+        drift.push({ section, settings: decodeSection(section, data), hash });
+      }
+    }
+    return drift;
+  }
+
+  /**
+   * Configure the background settings read-back
+   * @param enabled Whether to check for drifted settings
+   * @param intervalMs Time between checks in milliseconds (default: 30000)
+   */
+  setDriftDetection(enabled: boolean, intervalMs: number = 30000): void {
+    this.driftCheckEnabled = enabled;
+    this.driftCheckIntervalMs = intervalMs;
+
+    if (this.isConnected() && enabled) {
+      this.startDriftChecks();
+    } else if (!enabled) {
+      this.stopDriftChecks();
+    }
+  }
+
+  private startDriftChecks(): void {
+    if (!this.driftCheckEnabled) {
+      return;
+    }
+
+    this.stopDriftChecks();
+    this.driftCheckTimer = setInterval(() => {
+      if (!this.isConnected()) {
+        this.stopDriftChecks();
+        return;
+      }
+      // Skip this round while performing or while the editor holds sync
+      if (this.driftChecking || this.isMidiActive() || this.settingsSyncHolds > 0) {
+        return;
+      }
+
+      this.driftChecking = true;
+      this.checkSettingsDrift().then((drift) => {
+        if (drift.length > 0 && this.settingsSyncHolds === 0) {
+          console.warn('⚠️ Settings changed on device without notification:', drift.map(d => d.section));
+          this.onSettingsDrift?.(drift);
+        }
+      }).catch((error) => {
+        console.warn('Settings drift check failed:', error);
+      }).finally(() => {
+        this.driftChecking = false;
+      });
+    }, this.driftCheckIntervalMs);
+  }
+
+  private stopDriftChecks(): void {
+    if (this.driftCheckTimer) {
+      clearInterval(this.driftCheckTimer);
+      this.driftCheckTimer = null;
+    }
+  }
+
+  /**
+   * Read the settings stored in a preset slot without loading them
+   * The active settings on the device are left untouched.
+   */
+  async readDevicePreset(slot: number): Promise<DeviceSettings> {
+    if (!this.hasFeature('presetRead')) {
+      throw new Error(firmwareUpdateMessage('presetRead', this.capabilities));
+    }
+
+    try {
+      // Select and read in one queued operation so no other read of the slot interleaves
+      const uuid = PRESET_CHARACTERISTIC_UUIDS.READ;
+      const data = await this.queuedTransaction(`preset read ${slot}`, async () => {
+        await this.transport.write(uuid, encodePresetRead(slot) as BufferSource);
+        return this.transport.read(uuid);
+      });
+
+      const contents = decodePresetContents(data);
+      if (contents.slot !== slot) {
+        throw new Error(`Preset read returned slot ${contents.slot}, expected ${slot}`);
+      }
+      if (!contents.isValid) {
+        throw new Error(`Slot ${slot + 1} is empty`);
+      }
+
+      // Sections the slot doesn't store fall back to defaults
+      const settings = {
+        ...kb1Protocol.createDefaultDeviceSettings(),
+        ...kb1Protocol.decodeSettings(contents.payloads),
+      };
+      console.log(`📖 Read device preset slot ${slot}:`, settings);
+      return settings;
+    } catch (error) {
+      console.error('Failed to read device preset:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Read the name stored on the device
+   */
+  async readDeviceName(): Promise<string> {
+    if (!this.hasFeature('deviceName')) {
+      throw new Error(firmwareUpdateMessage('deviceName', this.capabilities));
+    }
+
+    const name = decodeDeviceName(await this.queuedRead(DEVICE_NAME_UUID, 'device name read'));
+    this.storedDeviceName = name || null;
+    return name;
+  }
+
+  /**
+   * Rename the device (must keep the KB1 prefix)
+   * The status reports the new name right away; the device advertises it
+   * from the next connection.
+   */
+  async renameDevice(name: string): Promise<void> {
+    if (!this.hasFeature('deviceName')) {
+      throw new Error(firmwareUpdateMessage('deviceName', this.capabilities));
+    }
+    const error = validateDeviceName(name);
+    if (error) {
+      throw new Error(error);
+    }
+
+    try {
+      await this.queuedWrite(DEVICE_NAME_UUID, encodeDeviceName(name) as BufferSource, 'device rename');
+      this.storedDeviceName = name;
+      console.log(`🏷️ Device renamed to "${name}"`);
+    } catch (err) {
+      console.error('Failed to rename device:', err);
+      throw err;
+    }
+  }
+
+  /**
+   * Check if the connected device exposes the Battery Service
+   */
+  hasBatteryService(): boolean {
+    return this.transport.hasCharacteristic(BATTERY_LEVEL_UUID);
+  }
+
+  /**
+   * Last battery reading (null when disconnected or not reported)
+   */
+  getBatteryStatus(): BatteryStatus | null {
+    return this.battery;
+  }
+
+  /**
+   * Read battery level, and charging state where the firmware reports it
+   */
+  async readBatteryStatus(): Promise<BatteryStatus> {
+    if (!this.hasBatteryService()) {
+      throw new Error('Battery level not reported by this device');
+    }
+
+    const level = decodeBatteryLevel(
+      await this.queuedRead(BATTERY_LEVEL_UUID, 'battery level read', OperationPriority.KEEPALIVE)
+    );
+    let charging: boolean | null = null;
+    if (this.transport.hasCharacteristic(BATTERY_POWER_STATE_UUID)) {
+      charging = decodeBatteryCharging(
+        await this.queuedRead(BATTERY_POWER_STATE_UUID, 'battery power state read', OperationPriority.KEEPALIVE)
+      );
+    }
+
+    this.updateBattery({ level, charging });
+    return { level, charging };
+  }
+
   /**
    * Get current connection status
    */
   getStatus(): BLEConnectionStatus {
+    const connected = this.transport.isConnected();
     return {
-      connected: this.device?.gatt?.connected ?? false,
-      device: this.device,
-      error: null
+      connected,
+      state: connected ? 'connected' : (this.reconnectTimer ? 'reconnecting' : 'disconnected'),
+      deviceName: this.storedDeviceName ?? this.transport.getDeviceName(),
+      error: null,
+      reconnectAttempt: this.reconnectAttempt,
+      capabilities: this.capabilities,
     };
   }
 
@@ -817,27 +1109,377 @@ export class BLEClient {
    * Check if device is connected
    */
   isConnected(): boolean {
-    return this.device?.gatt?.connected ?? false;
+    return this.transport.isConnected();
   }
 
   /**
-   * Handle characteristic value changes (notifications)
+   * Read a characteristic through the operation queue
    */
-  private onCharacteristicValueChanged(event: Event): void {
-    const characteristic = event.target as BluetoothRemoteGATTCharacteristic;
-    const value = characteristic.value;
-    if (value && this.onDataReceived) {
-      this.onDataReceived(value);
-    }
+  private queuedRead(
+    uuid: string,
+    label: string,
+    priority: OperationPriority = OperationPriority.SETTINGS
+  ): Promise<DataView> {
+    return this.operationQueue.enqueue(
+      () => this.transport.read(uuid),
+      { priority, label, ...OPERATION_POLICY[priority] }
+    );
+  }
+
+  /**
+   * Write a characteristic through the operation queue
+   */
+  private queuedWrite(
+    uuid: string,
+    data: BufferSource,
+    label: string,
+    priority: OperationPriority = OperationPriority.SETTINGS,
+    withoutResponse: boolean = false
+  ): Promise<void> {
+    return this.operationQueue.enqueue(
+      () => withoutResponse
+        ? this.transport.writeWithoutResponse(uuid, data)
+        : this.transport.write(uuid, data),
+      { priority, label, ...OPERATION_POLICY[priority] }
+    );
+  }
+
+  /**
+   * Run several characteristic operations as one queued operation
+   */
+  private queuedTransaction<T>(
+    label: string,
+    run: () => Promise<T>,
+    priority: OperationPriority = OperationPriority.SETTINGS
+  ): Promise<T> {
+    return this.operationQueue.enqueue(run, { priority, label, ...OPERATION_POLICY[priority] });
   }
 
   /**
    * Handle device disconnection
    */
   private onDisconnected(): void {
-    this.stopKeepAlive();
     this.cleanup();
-    this.notifyStatusChange(false);
+
+    if (this.autoReconnectEnabled) {
+      console.warn('⚠️ Connection lost, attempting to reconnect...');
+      this.scheduleReconnect();
+    } else {
+      this.notifyStatusChange('disconnected');
+    }
+  }
+
+  /**
+   * Read firmware version, hardware revision and capability bitmap
+   * Prefers the KB1 device-info characteristic, then the Device Information
+   * service; features are otherwise inferred from discovered characteristics.
+   */
+  private async discoverCapabilities(): Promise<DeviceCapabilities> {
+    const hasCharacteristics = (feature: DeviceFeature) =>
+      FEATURE_CHARACTERISTICS[feature].every(uuid => this.transport.hasCharacteristic(uuid));
+    const features = (isSupported: (feature: DeviceFeature) => boolean) => {
+      const result = {} as Record<DeviceFeature, boolean>;
+      for (const feature of Object.keys(FEATURE_CHARACTERISTICS) as DeviceFeature[]) {
+        result[feature] = isSupported(feature);
+      }
+      return result;
+    };
+
+    if (this.transport.hasCharacteristic(DEVICE_INFO_UUID)) {
+      try {
+        const info = decodeDeviceInfo(await this.queuedRead(DEVICE_INFO_UUID, 'device info read'));
+        const bitmap = info.bitmap ?? 0;
+        return {
+          ...info,
+          source: 'device-info',
+          features: features(feature => (bitmap & CAPABILITY_BITS[feature]) !== 0 && hasCharacteristics(feature)),
+        };
+      } catch (error) {
+        console.warn('Failed to read device info, inferring capabilities:', error);
+      }
+    }
+
+    const firmwareVersion = await this.readRevisionString(FIRMWARE_REVISION_UUID, 'firmware revision');
+    const hardwareRevision = await this.readRevisionString(HARDWARE_REVISION_UUID, 'hardware revision');
+    return {
+      firmwareVersion,
+      hardwareRevision,
+      bitmap: null,
+      source: firmwareVersion || hardwareRevision ? 'device-information-service' : 'inferred',
+      // Without a bitmap, only features with their own characteristics can be detected
+      features: features(feature => FEATURE_CHARACTERISTICS[feature].length > 0 && hasCharacteristics(feature)),
+    };
+  }
+
+  /**
+   * Read a Device Information string, null if unavailable
+   */
+  private async readRevisionString(uuid: string, label: string): Promise<string | null> {
+    if (!this.transport.hasCharacteristic(uuid)) {
+      return null;
+    }
+    try {
+      return decodeRevisionString(await this.queuedRead(uuid, `${label} read`));
+    } catch (error) {
+      console.warn(`Failed to read ${label}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Subscribe to notifications on every settings characteristic that supports them
+   */
+  private async subscribeToSettings(): Promise<void> {
+    const subscribed: SettingsSection[] = [];
+    for (const section of SETTINGS_SECTIONS) {
+      if (!this.hasSettingsSection(section)) {
+        continue;
+      }
+      try {
+        await this.transport.startNotifications(
+          SETTINGS_LAYOUTS[section].uuid,
+          (data) => this.handleSettingsNotification(section, data)
+        );
+        subscribed.push(section);
+      } catch {
+        // Characteristic doesn't support notify on this firmware
+      }
+    }
+
+    if (subscribed.length > 0) {
+      console.log('🔔 Live settings sync enabled for:', subscribed);
+    } else {
+      console.log('ℹ️ Settings notifications not available (press Load to refresh settings)');
+    }
+  }
+
+  /**
+   * Decode a settings notification and report it if the device changed it
+   */
+  private handleSettingsNotification(section: SettingsSection, data: DataView): void {
+    // Echo of our own write (or of a value we already have)
+    const pending = this.pendingSettingsWrites[section];
+    const last = this.lastSettingsPayloads[section];
+    if ((pending && bytesEqual(pending, data)) || (last && bytesEqual(last, data))) {
+      return;
+    }
+
+    try {
+      const settings = decodeSection(section, data);
+      this.lastSettingsPayloads[section] = toDataView(data);
+      if (this.settingsSyncHolds > 0) {
+        return;
+      }
+      console.log(`🔔 ${section} settings changed on device:`, settings);
+      this.onSettingsChanged?.(section, settings);
+    } catch (error) {
+      console.warn(`Ignoring malformed ${section} settings notification:`, error);
+    }
+  }
+
+  /**
+   * Read the battery and follow its changes
+   * Uses notifications where the firmware sends them, otherwise polls.
+   */
+  private async startBatteryMonitoring(): Promise<void> {
+    if (!this.hasBatteryService()) {
+      console.log('ℹ️ Battery level not reported by this device');
+      return;
+    }
+
+    try {
+      await this.readBatteryStatus();
+    } catch (error) {
+      console.warn('Failed to read battery status:', error);
+    }
+
+    let notifying = true;
+    try {
+      await this.transport.startNotifications(BATTERY_LEVEL_UUID, (data) => {
+        this.handleBatteryNotification(data, (status, view) => ({ ...status, level: decodeBatteryLevel(view) }));
+      });
+    } catch {
+      notifying = false;
+    }
+    if (this.transport.hasCharacteristic(BATTERY_POWER_STATE_UUID)) {
+      try {
+        await this.transport.startNotifications(BATTERY_POWER_STATE_UUID, (data) => {
+          this.handleBatteryNotification(data, (status, view) => ({ ...status, charging: decodeBatteryCharging(view) }));
+        });
+      } catch {
+        notifying = false;
+      }
+    }
+
+    if (notifying) {
+      console.log('🔋 Battery notifications enabled');
+    } else {
+      console.log(`🔋 Battery notifications not available, polling every ${this.batteryPollIntervalMs / 1000}s`);
+      this.startBatteryPolling();
+    }
+  }
+
+  /**
+   * Apply a battery notification to the last reading
+   */
+  private handleBatteryNotification(
+    data: DataView,
+    apply: (status: BatteryStatus, data: DataView) => BatteryStatus
+  ): void {
+    try {
+      this.updateBattery(apply(this.battery ?? { level: 0, charging: null }, data));
+    } catch (error) {
+      console.warn('Ignoring malformed battery notification:', error);
+    }
+  }
+
+  /**
+   * Store a battery reading and report it if it changed
+   */
+  private updateBattery(status: BatteryStatus): void {
+    if (this.battery?.level === status.level && this.battery.charging === status.charging) {
+      return;
+    }
+    this.battery = status;
+    console.log(`🔋 Battery ${status.level}%${status.charging ? ' (charging)' : ''}`);
+    this.onBatteryChanged?.(status);
+  }
+
+  private startBatteryPolling(): void {
+    this.stopBatteryPolling();
+    this.batteryPollTimer = setInterval(() => {
+      if (!this.isConnected()) {
+        this.stopBatteryPolling();
+        return;
+      }
+      this.readBatteryStatus().catch((error) => {
+        console.warn('Battery poll failed:', error);
+      });
+    }, this.batteryPollIntervalMs);
+  }
+
+  private stopBatteryPolling(): void {
+    if (this.batteryPollTimer) {
+      clearInterval(this.batteryPollTimer);
+      this.batteryPollTimer = null;
+    }
+  }
+
+  /**
+   * Acquire characteristics-dependent resources for a fresh link
+   * Used for initial connect, auto-connect and after reconnecting
+   */
+  private async startSession(): Promise<void> {
+    // MIDI I/O characteristic is required
+    if (!this.transport.hasCharacteristic(MIDI_UUID)) {
+      await this.transport.disconnect();
+      throw new Error('KB1 MIDI characteristic not found');
+    }
+
+    const missingSections = SETTINGS_SECTIONS.filter(section => !this.hasSettingsSection(section));
+    if (missingSections.length > 0) {
+      console.warn('⚠️ Some settings characteristics not available:', missingSections);
+    }
+
+    this.capabilities = await this.discoverCapabilities();
+    const { firmwareVersion, hardwareRevision, source, features } = this.capabilities;
+    console.log(`✅ Firmware ${firmwareVersion ?? 'unknown'} (hardware ${hardwareRevision ?? 'unknown'}, from ${source})`);
+
+    // Optional features (may not be in older firmware)
+    for (const feature of Object.keys(features) as DeviceFeature[]) {
+      if (!features[feature]) {
+        console.log(`ℹ️ ${firmwareUpdateMessage(feature, this.capabilities)}`);
+      }
+    }
+    if (!features.keepAlive) {
+      console.log('   Without keep-alive the connection may timeout after 10 minutes');
+    }
+
+    this.setMidiBatching(features.midiBatch);
+
+    if (features.deviceName) {
+      try {
+        await this.readDeviceName();
+      } catch (error) {
+        console.warn('Failed to read device name:', error);
+      }
+    }
+
+    // Start notifications if supported
+    try {
+      await this.transport.startNotifications(MIDI_UUID, (data) => {
+        this.lastMidiActivityAt = Date.now();
+        this.onDataReceived?.(data);
+      });
+    } catch (e) {
+      console.warn('Notifications not supported:', e);
+    }
+
+    await this.subscribeToSettings();
+    await this.startBatteryMonitoring();
+
+    // Start keep-alive timer to maintain connection
+    this.startKeepAlive();
+    this.startDriftChecks();
+  }
+
+  /**
+   * Schedule the next reconnect attempt, or give up after the last one
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempt >= this.reconnectMaxAttempts) {
+      console.error(`❌ Giving up after ${this.reconnectAttempt} reconnect attempts`);
+      this.reconnectAttempt = 0;
+      this.notifyStatusChange('gave-up', 'Could not reconnect to device');
+      return;
+    }
+
+    const delayMs = Math.min(
+      this.reconnectBaseDelayMs * 2 ** this.reconnectAttempt,
+      this.reconnectMaxDelayMs
+    );
+    this.reconnectAttempt++;
+    this.notifyStatusChange('reconnecting');
+    console.log(`🔄 Reconnect attempt ${this.reconnectAttempt}/${this.reconnectMaxAttempts} in ${delayMs}ms`);
+
+    const generation = this.reconnectGeneration;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.attemptReconnect(generation);
+    }, delayMs);
+  }
+
+  private async attemptReconnect(generation: number): Promise<void> {
+    try {
+      await this.transport.reconnect(KB1_CHARACTERISTIC_UUIDS);
+      if (generation !== this.reconnectGeneration) {
+        // Cancelled (user disconnected or switched transport) while connecting
+        await this.transport.disconnect();
+        return;
+      }
+      await this.startSession();
+      console.log(`✅ Reconnected after ${this.reconnectAttempt} attempt(s)`);
+      this.reconnectAttempt = 0;
+      this.notifyStatusChange('reconnected');
+    } catch (error) {
+      if (generation !== this.reconnectGeneration) {
+        return;
+      }
+      console.warn(`Reconnect attempt ${this.reconnectAttempt} failed:`, error);
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Stop any pending or in-flight reconnect
+   */
+  private cancelReconnect(): void {
+    this.reconnectGeneration++;
+    this.reconnectAttempt = 0;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
   }
 
   /**
@@ -854,12 +1496,12 @@ export class BLEClient {
     this.stopKeepAlive();
 
     this.keepAliveTimer = setInterval(() => {
-      if (this.isConnected() && this.keepAliveCharacteristic) {
+      if (this.isConnected() && this.transport.hasCharacteristic(KEEPALIVE_UUID)) {
         try {
           // Write a single byte to the keep-alive characteristic
           // The firmware doesn't care about the content, just that a write occurred
           const pingData = new Uint8Array([1]);
-          this.keepAliveCharacteristic.writeValueWithoutResponse(pingData).then(() => {
+          this.queuedWrite(KEEPALIVE_UUID, pingData, 'keep-alive', OperationPriority.KEEPALIVE, true).then(() => {
             console.log('💓 Keep-alive ping sent');
           }).catch((error) => {
             console.warn('Keep-alive ping failed:', error);
@@ -906,40 +1548,50 @@ export class BLEClient {
    */
   private cleanup(): void {
     this.stopKeepAlive();
-    if (this.characteristic) {
-      this.characteristic.removeEventListener('characteristicvaluechanged', 
-        this.onCharacteristicValueChanged.bind(this));
-    }
-    this.characteristic = null;
-    this.lever1Characteristic = null;
-    this.leverPush1Characteristic = null;
-    this.lever2Characteristic = null;
-    this.leverPush2Characteristic = null;
-    this.touchCharacteristic = null;
-    this.scaleCharacteristic = null;
-    this.systemCharacteristic = null;
-    this.keepAliveCharacteristic = null;
-    this.presetSaveCharacteristic = null;
-    this.presetLoadCharacteristic = null;
-    this.presetListCharacteristic = null;
-    this.presetDeleteCharacteristic = null;
-    this.server = null;
-    // Note: We don't set device to null to preserve device info
+    this.stopDriftChecks();
+    this.stopBatteryPolling();
+    if (this.battery) {
+      this.battery = null;
+      this.onBatteryChanged?.(null);
+    }
+    this.capabilities = null;
+    this.storedDeviceName = null;
+    this.faderCount = null;
+    this.auditioning = false;
+    this.operationQueue.clear('Not connected to device');
+    this.ccCoalescer.clear('Not connected to device');
+    this.lastSettingsPayloads = {};
+    this.pendingSettingsWrites = {};
   }
 
   /**
    * Notify status change callback
    */
-  private notifyStatusChange(connected: boolean, error: string | null = null): void {
+  private notifyStatusChange(state: ConnectionState, error: string | null = null): void {
     if (this.onStatusChange) {
       this.onStatusChange({
-        connected,
-        device: this.device,
-        error
+        connected: state === 'connected' || state === 'reconnected',
+        state,
+        deviceName: this.storedDeviceName ?? this.transport.getDeviceName(),
+        error,
+        reconnectAttempt: state === 'reconnecting' ? this.reconnectAttempt : 0,
+        capabilities: this.capabilities,
       });
     }
   }
 }
 
+/**
+ * Create a client for a KB1 picked through the browser's Bluetooth chooser
+ * Each client holds its own link, so several KB1s can be connected at once.
+ */
+export function createBLEClient(): BLEClient {
+  return new BLEClient(new WebBluetoothTransport({
+    serviceUuid: KB1_SERVICE_UUID,
+    namePrefix: 'KB1',
+    optionalServices: [DEVICE_INFORMATION_SERVICE_UUID, BATTERY_SERVICE_UUID],
+  }));
+}
+
 // Export singleton instance
-export const bleClient = new BLEClient();
+export const bleClient = createBLEClient();
@@ -0,0 +1,172 @@
+/**
+ * CC Coalescer - Last-value-wins rate limiting for live MIDI CC output
+ *
+ * Values for the same controller that arrive faster than the link can carry
+ * them replace each other while pending, so the final value of a gesture is
+ * always delivered (trailing edge). Pending controllers are flushed
+ * round-robin in the order they first became pending, so many sliders moving
+ * at once interleave fairly instead of one starving the others.
+ *
+ * When a batch sender is set (firmware that accepts several pairs per write),
+ * every pending controller is flushed together in one write per interval.
+ * Without one, each controller is its own write, one interval apart.
+ */
+
+export interface CCCoalescerStats {
+  /** CC values delivered to the device (each pair of a batch counts once) */
+  sent: number;
+  /** Values replaced by a newer value before they were sent */
+  coalesced: number;
+  /** Controllers currently waiting to be sent */
+  pending: number;
+  /** Writes that carried more than one CC */
+  batches: number;
+}
+
+interface PendingValue {
+  value: number;
+  waiters: { resolve: () => void; reject: (error: unknown) => void }[];
+}
+
+export interface CCPair {
+  cc: number;
+  value: number;
+}
+
+export type CCSender = (cc: number, value: number) => Promise<void>;
+export type CCBatchSender = (pairs: CCPair[]) => Promise<void>;
+
+export class CCCoalescer {
+  private readonly send: CCSender;
+  private readonly minIntervalMs: number;
+  private sendBatch: CCBatchSender | null = null;
+  private maxBatchSize = 1;
+  // Map preserves insertion order: updating a pending CC keeps its turn
+  private pending = new Map<number, PendingValue>();
+  private flushing = false;
+  private lastSendMs = -Infinity;
+  private sent = 0;
+  private coalesced = 0;
+  private batches = 0;
+
+  /**
+   * @param send Writes a single CC to the device
+   * @param minIntervalMs Minimum spacing between consecutive writes
+   */
+  constructor(send: CCSender, minIntervalMs: number = 8) {
+    this.send = send;
+    this.minIntervalMs = minIntervalMs;
+  }
+
+  /**
+   * Queue the latest value for a controller
+   * Resolves once this value, or a newer value for the same CC, is sent.
+   */
+  push(cc: number, value: number): Promise<void> {
+    return this.pushMany([{ cc, value }]);
+  }
+
+  /**
+   * Queue several controllers together
+   * With a batch sender they share one write; otherwise each is written
+   * separately, spaced by the minimum interval like any other CC. Resolves
+   * once every pair has been sent.
+   */
+  pushMany(pairs: CCPair[]): Promise<void> {
+    const sent = pairs.map(({ cc, value }) => new Promise<void>((resolve, reject) => {
+      const existing = this.pending.get(cc);
+      if (existing) {
+        existing.value = value;
+        existing.waiters.push({ resolve, reject });
+        this.coalesced++;
+      } else {
+        this.pending.set(cc, { value, waiters: [{ resolve, reject }] });
+      }
+    }));
+    void this.flush();
+    return Promise.all(sent).then(() => undefined);
+  }
+
+  /**
+   * Enable batched writes (null falls back to one write per CC)
+   * @param maxBatchSize Most pairs carried by a single write
+   */
+  setBatchSender(sendBatch: CCBatchSender | null, maxBatchSize: number = 1): void {
+    this.sendBatch = sendBatch;
+    this.maxBatchSize = Math.max(1, maxBatchSize);
+  }
+
+  getStats(): CCCoalescerStats {
+    return {
+      sent: this.sent,
+      coalesced: this.coalesced,
+      pending: this.pending.size,
+      batches: this.batches,
+    };
+  }
+
+  resetStats(): void {
+    this.sent = 0;
+    this.coalesced = 0;
+    this.batches = 0;
+  }
+
+  /**
+   * Drop all pending values, rejecting their callers
+   */
+  clear(reason: string): void {
+    const dropped = [...this.pending.values()];
+    this.pending.clear();
+    for (const entry of dropped) {
+      for (const waiter of entry.waiters) {
+        waiter.reject(new Error(reason));
+      }
+    }
+  }
+
+  private async flush(): Promise<void> {
+    if (this.flushing) {
+      return;
+    }
+    this.flushing = true;
+
+    try {
+      while (this.pending.size > 0) {
+        const waitMs = this.lastSendMs + this.minIntervalMs - performance.now();
+        if (waitMs > 0) {
+          await new Promise(resolve => setTimeout(resolve, waitMs));
+        }
+
+        // Oldest pending controllers go next; values that arrived during
+        // the wait are picked up here
+        const batchSize = this.sendBatch ? this.maxBatchSize : 1;
+        const taken: [number, PendingValue][] = [];
+        for (const item of this.pending) {
+          if (taken.length >= batchSize) break;
+          taken.push(item);
+        }
+        if (taken.length === 0) {
+          break;
+        }
+        taken.forEach(([cc]) => this.pending.delete(cc));
+
+        this.lastSendMs = performance.now();
+        try {
+          if (this.sendBatch && taken.length > 1) {
+            await this.sendBatch(taken.map(([cc, entry]) => ({ cc, value: entry.value })));
+            this.batches++;
+          } else {
+            const [cc, entry] = taken[0]!;
+            await this.send(cc, entry.value);
+          }
+          this.sent += taken.length;
+          taken.forEach(([, entry]) => entry.waiters.forEach(waiter => waiter.resolve()));
+        } catch (error) {
+          taken.forEach(([, entry]) => entry.waiters.forEach(waiter => waiter.reject(error)));
+        }
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+}
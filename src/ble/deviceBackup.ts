@@ -0,0 +1,287 @@
+/**
+ * Device Backup - Full backup and restore of the KB1's preset library
+ *
+ * A backup holds every preset slot (name, timestamp, full settings), the
+ * active settings and, where supported, the fader CC mappings. Restore pushes
+ * the file back slot by slot through the device's own SAVE command (the
+ * firmware has no direct slot write), then verifies by reading back. Every
+ * settings write is verified section by section, so a slot is never saved
+ * from half-written settings.
+ */
+
+import type { BLEClient } from './bleClient';
+import { DEVICE_PRESET, kb1Protocol, type CCMapping, type DeviceSettings } from './kb1Protocol';
+import { writeSettingsVerified } from './verifiedWrite';
+import { diffSettings } from '../state/settingsDiff';
+import { sleepTimerIssues } from '../state/sleepPlanner';
+
+export const DEVICE_BACKUP_FORMAT = 'kb1-device-backup';
+export const DEVICE_BACKUP_VERSION = 1;
+
+export interface DeviceBackupSlot {
+  slot: number;
+  name: string;
+  /** Unix timestamp (seconds) from the device */
+  timestamp: number;
+  isValid: boolean;
+  /** Full settings stored in the slot (null for empty slots) */
+  settings: DeviceSettings | null;
+}
+
+export interface DeviceBackup {
+  format: typeof DEVICE_BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  deviceName: string | null;
+  firmwareVersion: string | null;
+  activeSettings: DeviceSettings;
+  ccMappings?: CCMapping[];
+  slots: DeviceBackupSlot[];
+}
+
+export interface BackupProgress {
+  phase: 'reading' | 'writing' | 'verifying';
+  /** Steps completed so far */
+  step: number;
+  total: number;
+  message: string;
+}
+
+export type BackupProgressCallback = (progress: BackupProgress) => void;
+
+export interface RestoreReport {
+  verified: boolean;
+  /** Human-readable verification failures */
+  mismatches: string[];
+}
+
+/**
+ * Read every preset slot and the active settings into a backup
+ * Firmware without slot reads is backed up by loading each slot in turn;
+ * the active settings are written back afterwards.
+ */
+export async function createDeviceBackup(
+  client: BLEClient,
+  onProgress: BackupProgressCallback = () => {}
+): Promise<DeviceBackup> {
+  if (!client.hasDevicePresetSupport()) {
+    throw new Error('Device presets not supported');
+  }
+
+  const total = DEVICE_PRESET.MAX_SLOTS + 2;
+  let step = 0;
+  const report = (message: string) => onProgress({ phase: 'reading', step, total, message });
+
+  report('Reading active settings');
+  const activeSettings = await readFullSettings(client);
+  const ccMappings = client.hasFeature('ccMappings') ? (await client.readCCMappings()).mappings : undefined;
+  step++;
+
+  report('Reading preset list');
+  const metadata = await client.listDevicePresets();
+  step++;
+
+  const slots: DeviceBackupSlot[] = [];
+  const canReadSlots = client.hasFeature('presetRead');
+  // Slots are loaded to read them on older firmware; put the active settings back
+  const restoreActive = async () => {
+    await writeFullSettings(client, activeSettings, 'active settings');
+    if (ccMappings) {
+      await writeCCMappings(client, ccMappings);
+    }
+  };
+  const readSlots = async () => {
+    try {
+      for (const preset of metadata) {
+        report(`Reading slot ${preset.slot + 1}`);
+        let settings: DeviceSettings | null = null;
+        if (preset.isValid) {
+          if (canReadSlots) {
+            settings = await client.readDevicePreset(preset.slot);
+          } else {
+            await client.loadDevicePreset(preset.slot);
+            settings = await readFullSettings(client);
+          }
+        }
+        slots.push({ ...preset, settings });
+        step++;
+      }
+    } catch (error) {
+      if (!canReadSlots) {
+        // Report the read failure, not a failed restore on top of it
+        await restoreActive().catch((restoreError) => {
+          console.error('❌ Could not restore active settings after failed backup:', restoreError);
+        });
+      }
+      throw error;
+    }
+    if (!canReadSlots) {
+      await restoreActive();
+    }
+  };
+  // Loading slots changes the active settings; keep that out of the UI
+  await (canReadSlots ? readSlots() : client.withSettingsSyncHeld(readSlots));
+
+  report('Backup complete');
+  const capabilities = client.getCapabilities();
+  return {
+    format: DEVICE_BACKUP_FORMAT,
+    version: DEVICE_BACKUP_VERSION,
+    createdAt: Date.now(),
+    deviceName: client.getStatus().deviceName,
+    firmwareVersion: capabilities?.firmwareVersion ?? null,
+    activeSettings,
+    ccMappings,
+    slots,
+  };
+}
+
+/**
+ * Push a backup to the device slot by slot, then verify by reading back
+ * Each slot is written by applying its settings and saving them into the
+ * slot; empty slots are deleted. The backup's active settings are restored last.
+ */
+export async function restoreDeviceBackup(
+  client: BLEClient,
+  backup: DeviceBackup,
+  onProgress: BackupProgressCallback = () => {}
+): Promise<RestoreReport> {
+  if (!client.hasDevicePresetSupport()) {
+    throw new Error('Device presets not supported');
+  }
+
+  const slots = backup.slots.slice(0, DEVICE_PRESET.MAX_SLOTS);
+  const total = slots.length + 1;
+  let step = 0;
+  const report = (phase: BackupProgress['phase'], message: string) => onProgress({ phase, step, total, message });
+
+  // Slots store the active mappings when saved
+  if (backup.ccMappings) {
+    await writeCCMappings(client, backup.ccMappings);
+  }
+
+  for (const entry of slots) {
+    report('writing', `Writing slot ${entry.slot + 1}`);
+    if (entry.isValid && entry.settings) {
+      // Stops the restore if the slot's settings didn't all reach the device
+      await writeFullSettings(client, entry.settings, `slot ${entry.slot + 1} settings`);
+      await client.saveDevicePreset(entry.slot, entry.name, entry.timestamp);
+    } else {
+      await client.deleteDevicePreset(entry.slot);
+    }
+    step++;
+  }
+
+  report('writing', 'Restoring active settings');
+  await writeFullSettings(client, backup.activeSettings, 'active settings');
+  step++;
+
+  return verifyDeviceBackup(client, backup, onProgress);
+}
+
+/**
+ * Compare the device against a backup by reading everything back
+ */
+export async function verifyDeviceBackup(
+  client: BLEClient,
+  backup: DeviceBackup,
+  onProgress: BackupProgressCallback = () => {}
+): Promise<RestoreReport> {
+  const mismatches: string[] = [];
+  const canReadSlots = client.hasFeature('presetRead');
+  const total = backup.slots.length + 1;
+  let step = 0;
+  const report = (message: string) => onProgress({ phase: 'verifying', step, total, message });
+
+  report('Verifying preset list');
+  const metadata = await client.listDevicePresets();
+  for (const entry of backup.slots) {
+    report(`Verifying slot ${entry.slot + 1}`);
+    const onDevice = metadata[entry.slot];
+    if (!onDevice || onDevice.isValid !== entry.isValid) {
+      mismatches.push(`Slot ${entry.slot + 1}: expected ${entry.isValid ? 'a preset' : 'empty'}`);
+    } else if (entry.isValid && onDevice.name !== entry.name) {
+      mismatches.push(`Slot ${entry.slot + 1}: name is "${onDevice.name}", expected "${entry.name}"`);
+    } else if (entry.isValid && entry.settings && canReadSlots) {
+      const changes = diffSettings(entry.settings, await client.readDevicePreset(entry.slot));
+      if (changes.length > 0) {
+        mismatches.push(`Slot ${entry.slot + 1}: ${changes.length} setting(s) differ`);
+      }
+    }
+    step++;
+  }
+
+  report('Verifying active settings');
+  const changes = diffSettings(backup.activeSettings, await readFullSettings(client));
+  if (changes.length > 0) {
+    mismatches.push(`Active settings: ${changes.length} setting(s) differ`);
+  }
+  step++;
+
+  report(mismatches.length === 0 ? 'Verified' : 'Verification failed');
+  return { verified: mismatches.length === 0, mismatches };
+}
+
+/**
+ * Parse and validate a backup file
+ */
+export function parseDeviceBackup(json: string): DeviceBackup {
+  const data = JSON.parse(json) as Partial<DeviceBackup>;
+  if (data.format !== DEVICE_BACKUP_FORMAT) {
+    throw new Error('Not a KB1 device backup file');
+  }
+  if (typeof data.version !== 'number' || data.version > DEVICE_BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version: ${data.version}`);
+  }
+  if (!data.activeSettings || !Array.isArray(data.slots)) {
+    throw new Error('Backup file is incomplete');
+  }
+
+  // Hand-edited or older files must not push invalid settings to the device
+  assertValidBackupSettings(data.activeSettings, 'active settings');
+  for (const entry of data.slots) {
+    if (entry.isValid && entry.settings) {
+      assertValidBackupSettings(entry.settings, `slot ${entry.slot + 1} settings`);
+    }
+  }
+  return data as DeviceBackup;
+}
+
+function assertValidBackupSettings(settings: DeviceSettings, label: string): void {
+  const issue = settings.system ? sleepTimerIssues(settings.system)[0] : undefined;
+  if (!kb1Protocol.validateSettings(settings) || issue) {
+    throw new Error(`Backup file has invalid ${label}${issue ? `: ${issue.message}` : ''}`);
+  }
+}
+
+/**
+ * Read all settings; sections the device lacks keep default values
+ */
+export async function readFullSettings(client: BLEClient): Promise<DeviceSettings> {
+  return { ...kb1Protocol.createDefaultDeviceSettings(), ...await client.readAllSettings() };
+}
+
+/**
+ * Write all settings, verifying each section by reading it back
+ * Throws if any section fails; the sections already written are restored
+ * first, so the device is never left with a mix of old and new settings.
+ */
+export async function writeFullSettings(client: BLEClient, settings: DeviceSettings, label: string): Promise<void> {
+  const report = await writeSettingsVerified(client, settings);
+  if (!report.ok) {
+    const failed = report.results.find(result => result.status === 'failed' || result.status === 'rollback-failed');
+    throw new Error(`Could not write ${label}${failed ? ` (${failed.section}: ${failed.error ?? 'failed'})` : ''}`);
+  }
+}
+
+/**
+ * Write a full fader mapping table (no-op on firmware without mappings)
+ */
+export async function writeCCMappings(client: BLEClient, mappings: CCMapping[]): Promise<void> {
+  if (!client.hasFeature('ccMappings')) {
+    return;
+  }
+  for (const mapping of mappings) {
+    await client.writeCCMapping(mapping);
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Device Capabilities - Firmware version and feature discovery
+ *
+ * Newer firmware exposes a KB1 device-info characteristic carrying the
+ * firmware version, hardware revision and a capability bitmap. Older firmware
+ * only has the standard Device Information service (0x180A) strings, or
+ * nothing at all; features are then inferred from which characteristics were
+ * discovered on connect.
+ */
+
+// KB1 device-info characteristic (in the KB1 service)
+export const DEVICE_INFO_UUID = 'd3a7b321-0001-4000-8000-00000000000d';
+
+// Standard Device Information service and its revision strings
+export const DEVICE_INFORMATION_SERVICE_UUID = '0000180a-0000-1000-8000-00805f9b34fb';
+export const FIRMWARE_REVISION_UUID = '00002a26-0000-1000-8000-00805f9b34fb';
+export const HARDWARE_REVISION_UUID = '00002a27-0000-1000-8000-00805f9b34fb';
+
+/**
+ * Optional firmware features the UI can show or hide
+ */
+export type DeviceFeature = 'presets' | 'keepAlive' | 'midiBatch' | 'ccMappings' | 'presetRead' | 'presetSlotOps' | 'audition' | 'deviceReset' | 'deviceName';
+
+/**
+ * Capability bitmap bits reported by the KB1 device-info characteristic
+ */
+export const CAPABILITY_BITS: Record<DeviceFeature, number> = {
+  presets: 1 << 0,
+  keepAlive: 1 << 1,
+  midiBatch: 1 << 2,
+  ccMappings: 1 << 3,
+  presetRead: 1 << 4,
+  presetSlotOps: 1 << 5,
+  audition: 1 << 6,
+  deviceReset: 1 << 7,
+  deviceName: 1 << 8,
+};
+
+/**
+ * User-facing feature names for "update firmware" messages
+ */
+export const FEATURE_LABELS: Record<DeviceFeature, string> = {
+  presets: 'device presets',
+  keepAlive: 'keep-alive',
+  midiBatch: 'batched MIDI output',
+  ccMappings: 'fader CC mappings',
+  presetRead: 'device preset previews',
+  presetSlotOps: 'native slot move, swap and copy',
+  audition: 'audition mode',
+  deviceReset: 'device-side resets',
+  deviceName: 'device renaming',
+};
+
+/**
+ * Where the capability information came from
+ * - device-info: KB1 device-info characteristic (authoritative bitmap)
+ * - device-information-service: standard 0x180A strings, features inferred
+ * - inferred: no version info, features inferred from discovered characteristics
+ */
+export type CapabilitySource = 'device-info' | 'device-information-service' | 'inferred';
+
+export interface DeviceCapabilities {
+  firmwareVersion: string | null;
+  hardwareRevision: string | null;
+  /** Raw capability bitmap, null when not reported by the firmware */
+  bitmap: number | null;
+  source: CapabilitySource;
+  features: Record<DeviceFeature, boolean>;
+}
+
+const DEVICE_INFO_LENGTH = 8;
+
+/**
+ * Decode the KB1 device-info characteristic
+ * Format: [major(1)][minor(1)][patch(1)][hwRevision(1)][capabilities(4, LE)]
+ */
+export function decodeDeviceInfo(data: DataView): Pick<DeviceCapabilities, 'firmwareVersion' | 'hardwareRevision' | 'bitmap'> {
+  if (data.byteLength < DEVICE_INFO_LENGTH) {
+    throw new Error(`Device info payload too short: ${data.byteLength} bytes, expected ${DEVICE_INFO_LENGTH}`);
+  }
+
+  return {
+    firmwareVersion: `${data.getUint8(0)}.${data.getUint8(1)}.${data.getUint8(2)}`,
+    hardwareRevision: `rev ${data.getUint8(3)}`,
+    bitmap: data.getUint32(4, true),
+  };
+}
+
+/**
+ * Encode the KB1 device-info characteristic (used by the simulated device)
+ */
+export function encodeDeviceInfo(version: [number, number, number], hardwareRevision: number, bitmap: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(DEVICE_INFO_LENGTH);
+  const view = new DataView(buffer);
+  version.forEach((part, i) => view.setUint8(i, part));
+  view.setUint8(3, hardwareRevision);
+  view.setUint32(4, bitmap >>> 0, true);
+  return buffer;
+}
+
+/**
+ * Build a capability bitmap from a list of features
+ */
+export function capabilityBitmap(features: readonly DeviceFeature[]): number {
+  return features.reduce((bitmap, feature) => bitmap | CAPABILITY_BITS[feature], 0) >>> 0;
+}
+
+/**
+ * Decode a Device Information string characteristic (UTF-8, may be NUL-padded)
+ */
+export function decodeRevisionString(data: DataView): string | null {
+  const text = new TextDecoder().decode(data).replace(/\0+$/, '').trim();
+  return text.length > 0 ? text : null;
+}
+
+/**
+ * Message shown when a feature is unavailable on the connected device
+ */
+export function firmwareUpdateMessage(feature: DeviceFeature, capabilities: DeviceCapabilities | null): string {
+  const installed = capabilities?.firmwareVersion ? ` (installed: ${capabilities.firmwareVersion})` : '';
+  const label = FEATURE_LABELS[feature];
+  return `Update your KB1 firmware to use ${label}${installed}.`;
+}
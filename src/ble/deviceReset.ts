@@ -0,0 +1,80 @@
+/**
+ * Device Reset - Reset settings, fader mappings or preset slots on the KB1
+ *
+ * Firmware with the reset characteristic resets itself to the defaults
+ * compiled into it. Older firmware gets the same result from ordinary writes
+ * using the web app's copy of the defaults. Either way the reset is persisted
+ * immediately and any uncommitted audition changes are discarded.
+ */
+
+import type { BLEClient } from './bleClient';
+import { DeviceResetScope, kb1Protocol } from './kb1Protocol';
+import { SETTINGS_SECTIONS, type SettingsSection } from './settingsCodec';
+import { writeCCMappings } from './deviceBackup';
+
+/**
+ * Reset every settings section, or just one, to defaults
+ */
+export async function resetDeviceSettings(client: BLEClient, section?: SettingsSection): Promise<void> {
+  if (client.hasFeature('deviceReset')) {
+    await client.resetDevice(section ? DeviceResetScope.SECTION : DeviceResetScope.SETTINGS, section);
+    return;
+  }
+
+  if (client.isAuditioning()) {
+    await client.revertAudition();
+  }
+  const defaults = kb1Protocol.createDefaultDeviceSettings();
+  for (const target of section ? [section] : SETTINGS_SECTIONS) {
+    await client.writeSection(target, defaults[target]);
+  }
+}
+
+/**
+ * Reset every fader's CC mapping to defaults
+ */
+export async function resetDeviceCCMappings(client: BLEClient): Promise<void> {
+  if (client.hasFeature('deviceReset')) {
+    await client.resetDevice(DeviceResetScope.CC_MAPPINGS);
+    return;
+  }
+  if (!client.hasFeature('ccMappings')) {
+    return;
+  }
+
+  const { faderCount } = await client.readCCMappings();
+  const defaults = Array.from({ length: faderCount }, (_, i) => kb1Protocol.createDefaultCCMapping(i));
+  await writeCCMappings(client, defaults);
+}
+
+/**
+ * Clear every preset slot
+ */
+export async function clearDevicePresetSlots(client: BLEClient): Promise<void> {
+  if (client.hasFeature('deviceReset')) {
+    await client.resetDevice(DeviceResetScope.PRESETS);
+    return;
+  }
+
+  for (const preset of await client.listDevicePresets()) {
+    if (preset.isValid) {
+      await client.deleteDevicePreset(preset.slot);
+    }
+  }
+}
+
+/**
+ * Reset settings and fader mappings and clear every preset slot
+ */
+export async function factoryResetDevice(client: BLEClient): Promise<void> {
+  if (client.hasFeature('deviceReset')) {
+    await client.resetDevice(DeviceResetScope.FACTORY);
+    return;
+  }
+
+  await resetDeviceSettings(client);
+  await resetDeviceCCMappings(client);
+  if (client.hasDevicePresetSupport()) {
+    await clearDevicePresetSlots(client);
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * GATT Operation Queue - Serializes all characteristic I/O
+ *
+ * Web Bluetooth allows only one GATT operation at a time; overlapping calls
+ * fail with "GATT operation already in progress". Every read and write goes
+ * through this queue, which runs one operation at a time in priority order
+ * (FIFO within a priority), enforces per-operation timeouts and retries
+ * transient GATT errors a bounded number of times. A timed-out operation
+ * fails its caller right away, but nothing else is dispatched until the
+ * underlying GATT call has settled, or for a few more timeouts' worth if it
+ * never does.
+ */
+
+/**
+ * Operation priorities (lower value runs first)
+ */
+export enum OperationPriority {
+  LIVE_MIDI = 0,
+  SETTINGS = 1,
+  KEEPALIVE = 2,
+}
+
+export interface OperationOptions {
+  priority: OperationPriority;
+  /** Label used in logs and error messages */
+  label: string;
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs?: number;
+  /** Additional attempts after a transient failure */
+  retries?: number;
+}
+
+interface QueuedOperation {
+  run: () => Promise<unknown>;
+  options: Required<OperationOptions>;
+  sequence: number;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const RETRY_DELAY_MS = 50;
+// How long (in multiples of its timeout, from its start) a timed-out call may hold the queue
+const STALL_LIMIT_FACTOR = 3;
+
+/**
+ * Returns true for GATT errors worth retrying (busy stack, flaky radio)
+ * Disconnects and unsupported operations are not transient, and neither are
+ * timeouts: the timed-out call may still be running on the device.
+ */
+export function isTransientGattError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /already in progress|unknown reason/i.test(message);
+}
+
+export class GattOperationQueue {
+  private pending: QueuedOperation[] = [];
+  private running = false;
+  private sequence = 0;
+  // Timed-out operation still in flight; the queue waits until it's released
+  private stall: { released: Promise<void>; release: () => void } | null = null;
+
+  /**
+   * Number of operations waiting to run
+   */
+  get size(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Queue an operation and resolve with its result
+   */
+  enqueue<T>(run: () => Promise<T>, options: OperationOptions): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pending.push({
+        run,
+        options: {
+          timeoutMs: DEFAULT_TIMEOUT_MS,
+          retries: 0,
+          ...options,
+        },
+        sequence: this.sequence++,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      void this.drain();
+    });
+  }
+
+  /**
+   * Reject every queued operation (e.g. on disconnect)
+   * The operation currently running is left to finish or time out; a
+   * timed-out one no longer holds the queue.
+   */
+  clear(reason: string): void {
+    this.stall?.release();
+    this.stall = null;
+    const dropped = this.pending;
+    this.pending = [];
+    for (const operation of dropped) {
+      operation.reject(new Error(`${operation.options.label}: ${reason}`));
+    }
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      let operation = this.takeNext();
+      while (operation) {
+        try {
+          operation.resolve(await this.execute(operation));
+        } catch (error) {
+          operation.reject(error);
+        }
+        const stall = this.stall;
+        if (stall) {
+          await stall.released;
+          if (this.stall === stall) {
+            this.stall = null;
+          }
+        }
+        operation = this.takeNext();
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Remove and return the highest-priority, oldest operation
+   */
+  private takeNext(): QueuedOperation | undefined {
+    if (this.pending.length === 0) {
+      return undefined;
+    }
+
+    let bestIndex = 0;
+    for (let i = 1; i < this.pending.length; i++) {
+      const candidate = this.pending[i]!;
+      const best = this.pending[bestIndex]!;
+      if (candidate.options.priority < best.options.priority ||
+          (candidate.options.priority === best.options.priority && candidate.sequence < best.sequence)) {
+        bestIndex = i;
+      }
+    }
+    return this.pending.splice(bestIndex, 1)[0];
+  }
+
+  private async execute(operation: QueuedOperation): Promise<unknown> {
+    const { label, timeoutMs, retries } = operation.options;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.withTimeout(operation.run(), timeoutMs, label);
+      } catch (error) {
+        if (attempt >= retries || !isTransientGattError(error)) {
+          throw error;
+        }
+        console.warn(`🔁 ${label} failed (attempt ${attempt + 1}/${retries + 1}), retrying:`, error);
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * (attempt + 1)));
+      }
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.holdQueue(promise, timeoutMs, label);
+        reject(new Error(`${label} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      promise.then(
+        (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Keep the queue from dispatching while a timed-out call may still be running
+   * Web Bluetooth can't cancel the call, so the next operation waits for it to
+   * settle, but never longer than STALL_LIMIT_FACTOR timeouts.
+   */
+  private holdQueue(promise: Promise<unknown>, timeoutMs: number, label: string): void {
+    let release!: () => void;
+    const released = new Promise<void>(resolve => { release = resolve; });
+    const limit = setTimeout(() => {
+      console.warn(`⚠️ ${label} still running after ${timeoutMs * STALL_LIMIT_FACTOR}ms; continuing without it`);
+      release();
+    }, timeoutMs * (STALL_LIMIT_FACTOR - 1));
+    promise.then(
+      () => console.warn(`⚠️ ${label} completed after timing out`),
+      () => undefined
+    ).finally(() => {
+      clearTimeout(limit);
+      release();
+    });
+    this.stall = { released, release };
+  }
+}
@@ -6,6 +6,8 @@
  * the raw BLE data transfer.
  */
 
+import { SETTINGS_SECTIONS, encodeSection, decodeSection, type SettingsSection } from './settingsCodec';
+
 /**
  * MIDI CC (Continuous Controller) mapping configuration
  */
@@ -17,6 +19,24 @@ export interface CCMapping {
   maxValue: number;
 }
 
+/**
+ * Fader mappings as stored on the device
+ */
+export interface CCMappingTable {
+  /** Number of physical faders on this hardware */
+  faderCount: number;
+  mappings: CCMapping[];
+}
+
+/**
+ * BLE Characteristic UUID for fader CC mappings
+ * Read returns every fader's mapping; a write updates a single fader.
+ */
+export const CC_MAPPING_UUID = 'd3a7b321-0001-4000-8000-00000000000e';
+
+const CC_MAPPING_ENTRY_SIZE = 4; // ccNumber, channel, minValue, maxValue
+const CC_MAPPING_WRITE_SIZE = 5; // faderIndex + entry
+
 /**
  * Lever settings configuration
  */
@@ -72,8 +92,9 @@ export interface ScaleSettings {
  * System/Power settings configuration
  * 
  * Constraints:
- * - Deep sleep must be at least 30s after light sleep
+ * - Deep sleep must be more than 30s after light sleep
  * - BT connection must be at least 30s after deep sleep (to maintain connection)
+ * planSleepTimers() in state/sleepPlanner.ts keeps edits within these rules.
  */
 export interface SystemSettings {
   /** Light sleep timeout in seconds (range: 30-300s, default: 90s) */
@@ -82,6 +103,8 @@ export interface SystemSettings {
   deepSleepTimeout: number;
   /** Bluetooth keepalive timeout in seconds (range: 30-600s, must be >=deepSleep+30s, default: 600s) */
   bleTimeout: number;
+  /** Seconds without input before the KB1 counts as idle (range: 1-30s, default: 2s; missing in older presets) */
+  idleConfirmTimeout?: number;
 }
 
 /**
@@ -106,6 +129,11 @@ export interface DeviceSettings {
   system: SystemSettings;
 }
 
+/**
+ * Raw characteristic payloads keyed by settings section
+ */
+export type SettingsPayloads = Partial<Record<SettingsSection, DataView>>;
+
 /**
  * Complete device state
  */
@@ -129,7 +157,8 @@ export interface DevicePresetMetadata {
  */
 export const DEVICE_PRESET = {
   MAX_SLOTS: 8,
-  NAME_MAX_LENGTH: 32,
+  NAME_FIELD_BYTES: 32,
+  NAME_MAX_BYTES: 31,     // UTF-8 bytes, leaving room for the NUL terminator
   EMPTY_SLOT_NAME: '[Empty]',
 } as const;
 
@@ -225,30 +254,63 @@ export enum ScaleType {
 
 export class KB1Protocol {
   /**
-   * Encode a request to get CC mappings from the device
+   * Encode a single fader mapping write for the CC mapping characteristic
+   * Format: [faderIndex(1)][ccNumber(1)][channel(1)][minValue(1)][maxValue(1)]
    */
-  encodeGetCCMappings(): ArrayBuffer {
-    // TODO: Implement actual KB1 protocol encoding
-    const buffer = new ArrayBuffer(2);
+  encodeSetCCMapping(mapping: CCMapping): ArrayBuffer {
+    const buffer = new ArrayBuffer(CC_MAPPING_WRITE_SIZE);
     const view = new DataView(buffer);
-    view.setUint8(0, KB1MessageType.GET_CC_MAPPING);
-    view.setUint8(1, 0); // Placeholder
+    view.setUint8(0, mapping.faderIndex);
+    view.setUint8(1, mapping.ccNumber);
+    view.setUint8(2, mapping.channel);
+    view.setUint8(3, mapping.minValue);
+    view.setUint8(4, mapping.maxValue);
     return buffer;
   }
 
   /**
-   * Encode a CC mapping to send to the device
+   * Decode all fader mappings read from the CC mapping characteristic
+   * Format: [faderCount(1)] then per fader [ccNumber(1)][channel(1)][minValue(1)][maxValue(1)]
    */
-  encodeSetCCMapping(mapping: CCMapping): ArrayBuffer {
-    // TODO: Implement actual KB1 protocol encoding
-    const buffer = new ArrayBuffer(8);
+  decodeCCMappings(data: DataView): CCMappingTable {
+    if (data.byteLength < 1) {
+      throw new Error('CC mapping payload is empty');
+    }
+
+    const faderCount = data.getUint8(0);
+    const expected = 1 + faderCount * CC_MAPPING_ENTRY_SIZE;
+    if (data.byteLength < expected) {
+      throw new Error(`CC mapping payload too short: ${data.byteLength} bytes, expected ${expected}`);
+    }
+
+    const mappings: CCMapping[] = [];
+    for (let faderIndex = 0; faderIndex < faderCount; faderIndex++) {
+      const offset = 1 + faderIndex * CC_MAPPING_ENTRY_SIZE;
+      mappings.push({
+        faderIndex,
+        ccNumber: data.getUint8(offset),
+        channel: data.getUint8(offset + 1),
+        minValue: data.getUint8(offset + 2),
+        maxValue: data.getUint8(offset + 3),
+      });
+    }
+    return { faderCount, mappings };
+  }
+
+  /**
+   * Encode a full fader mapping table (as read from the device)
+   */
+  encodeCCMappings(mappings: CCMapping[]): ArrayBuffer {
+    const buffer = new ArrayBuffer(1 + mappings.length * CC_MAPPING_ENTRY_SIZE);
     const view = new DataView(buffer);
-    view.setUint8(0, KB1MessageType.SET_CC_MAPPING);
-    view.setUint8(1, mapping.faderIndex);
-    view.setUint8(2, mapping.ccNumber);
-    view.setUint8(3, mapping.channel);
-    view.setUint8(4, mapping.minValue);
-    view.setUint8(5, mapping.maxValue);
+    view.setUint8(0, mappings.length);
+    mappings.forEach((mapping, faderIndex) => {
+      const offset = 1 + faderIndex * CC_MAPPING_ENTRY_SIZE;
+      view.setUint8(offset, mapping.ccNumber);
+      view.setUint8(offset + 1, mapping.channel);
+      view.setUint8(offset + 2, mapping.minValue);
+      view.setUint8(offset + 3, mapping.maxValue);
+    });
     return buffer;
   }
 
@@ -266,16 +328,19 @@ export class KB1Protocol {
   }
 
   /**
-   * Encode device settings to send to the device
+   * Encode device settings into one payload per settings characteristic
+   * @param previous Last payloads read from the device, used to preserve
+   *                 firmware-internal fields and newer trailing fields
    */
-  encodeSetSettings(_settings: DeviceSettings): ArrayBuffer {
-    // TODO: Implement actual KB1 protocol encoding when binary format is finalized
-    const buffer = new ArrayBuffer(128);
-    const view = new DataView(buffer);
-    view.setUint8(0, KB1MessageType.SET_SETTINGS);
-    // TODO: Encode all lever, push, touch, and scale settings
-    // Placeholder to maintain compilation
-    return buffer;
+  encodeSetSettings(
+    settings: DeviceSettings,
+    previous: SettingsPayloads = {}
+  ): Record<SettingsSection, ArrayBuffer> {
+    const payloads = {} as Record<SettingsSection, ArrayBuffer>;
+    for (const section of SETTINGS_SECTIONS) {
+      payloads[section] = encodeSection(section, settings[section], previous[section]);
+    }
+    return payloads;
   }
 
   /**
@@ -301,43 +366,23 @@ export class KB1Protocol {
     }
 
     const messageType = data.getUint8(0);
-
-    switch (messageType) {
-      case KB1MessageType.GET_CC_MAPPING:
-        return this.decodeCCMapping(data);
-      case KB1MessageType.GET_SETTINGS:
-        return this.decodeSettings(data);
-      default:
-        console.warn('Unknown message type:', messageType);
-        return null;
-    }
+    console.warn('Unknown message type:', messageType);
+    return null;
   }
 
   /**
-   * Decode CC mapping from device response
+   * Decode device settings from per-characteristic payloads
+   * Sections without a payload are omitted from the result
    */
-  private decodeCCMapping(data: DataView): CCMapping | null {
-    // TODO: Implement actual KB1 protocol decoding
-    if (data.byteLength < 6) {
-      return null;
+  decodeSettings(payloads: SettingsPayloads): Partial<DeviceSettings> {
+    const settings: Partial<Record<SettingsSection, unknown>> = {};
+    for (const section of SETTINGS_SECTIONS) {
+      const data = payloads[section];
+      if (data) {
+        settings[section] = decodeSection(section, data);
+      }
     }
-
-    return {
-      faderIndex: data.getUint8(1),
-      ccNumber: data.getUint8(2),
-      channel: data.getUint8(3),
-      minValue: data.getUint8(4),
-      maxValue: data.getUint8(5),
-    };
-  }
-
-  /**
-   * Decode device settings from device response
-   */
-  private decodeSettings(_data: DataView): DeviceSettings | null {
-    // TODO: Implement actual KB1 protocol decoding when binary format is finalized
-    // For now, return default settings structure
-    return this.createDefaultSettings();
+    return settings as Partial<DeviceSettings>;
   }
 
   /**
@@ -420,6 +465,7 @@ export class KB1Protocol {
         lightSleepTimeout: 90, // 90 seconds (firmware: LIGHT_SLEEP_MAX_MS)
         deepSleepTimeout: 330, // 5.5 minutes (firmware: DEEP_SLEEP_IDLE_MS)
         bleTimeout: 600, // 10 minutes (firmware: KEEPALIVE_GRACE_PERIOD_MS)
+        idleConfirmTimeout: 2, // 2 seconds
       },
     };
   }
@@ -434,10 +480,12 @@ export class KB1Protocol {
 
   /**
    * Validate CC mapping values
+   * @param faderCount Faders on the connected device; checks faderIndex when given
    */
-  validateCCMapping(mapping: CCMapping): boolean {
+  validateCCMapping(mapping: CCMapping, faderCount?: number): boolean {
     return (
       mapping.faderIndex >= 0 &&
+      (faderCount === undefined || mapping.faderIndex < faderCount) &&
       mapping.ccNumber >= 0 && mapping.ccNumber <= 128 && // Support CC 128 for Velocity
       mapping.channel === 1 &&
       mapping.minValue >= 0 && mapping.minValue <= 127 &&
@@ -495,22 +543,16 @@ export class KB1Protocol {
     };
 
     // Helper to validate system settings
+    // Individual ranges only; the light → deep → BT ordering is checked by
+    // sleepTimerIssues() in state/sleepPlanner.ts
     const validateSystem = (system: SystemSettings): boolean => {
-      // Individual range checks
-      const rangeValid = (
+      return (
         system.lightSleepTimeout >= 30 && system.lightSleepTimeout <= 300 &&
         system.deepSleepTimeout >= 120 && system.deepSleepTimeout <= 1800 &&
-        system.bleTimeout >= 30 && system.bleTimeout <= 600
+        system.bleTimeout >= 30 && system.bleTimeout <= 600 &&
+        (system.idleConfirmTimeout === undefined ||
+          (system.idleConfirmTimeout >= 1 && system.idleConfirmTimeout <= 30))
       );
-      
-      // Relative constraints:
-      // 1. Deep sleep must be after light sleep (with 30s gap)
-      const deepAfterLight = system.deepSleepTimeout > system.lightSleepTimeout + 30;
-      
-      // 2. BT connection should stay alive 30s after deep sleep
-      const bleAfterDeep = system.bleTimeout >= system.deepSleepTimeout + 30;
-      
-      return rangeValid && deepAfterLight && bleAfterDeep;
     };
 
     return (
@@ -530,6 +572,188 @@ export class KB1Protocol {
 // Export singleton instance
 export const kb1Protocol = new KB1Protocol();
 
+/**
+ * Most CC pairs packed into one MIDI characteristic write
+ * 8 × "127,127;" stays under 64 bytes, well inside the negotiated ATT MTU.
+ */
+export const MIDI_BATCH_MAX_PAIRS = 8;
+
+/**
+ * Encode a MIDI control change for the MIDI characteristic
+ * Format: ASCII "CC,VALUE"
+ */
+export function encodeControlChange(cc: number, value: number): Uint8Array {
+  return new TextEncoder().encode(`${cc},${value}`);
+}
+
+/**
+ * Encode several control changes into one MIDI characteristic write
+ * Format: ASCII "CC,VALUE;CC,VALUE;..." (firmware with batch support only)
+ */
+export function encodeControlChangeBatch(pairs: { cc: number; value: number }[]): Uint8Array {
+  if (pairs.length === 0 || pairs.length > MIDI_BATCH_MAX_PAIRS) {
+    throw new Error(`Invalid CC batch size: ${pairs.length}`);
+  }
+
+  return new TextEncoder().encode(pairs.map(({ cc, value }) => `${cc},${value}`).join(';'));
+}
+
+/**
+ * Decode a MIDI characteristic write (single or batched)
+ * Returns null if the payload is not a valid CC message.
+ */
+export function decodeControlChanges(data: DataView): { cc: number; value: number }[] | null {
+  const text = new TextDecoder().decode(data);
+  if (!/^\d+,\d+(;\d+,\d+)*$/.test(text)) {
+    return null;
+  }
+
+  return text.split(';').map(pair => {
+    const [cc, value] = pair.split(',').map(Number);
+    return { cc: cc!, value: value! };
+  });
+}
+
+/**
+ * Write mode characteristic: settings writes persist immediately by default;
+ * in audition mode they stay in RAM until committed or reverted
+ */
+export const WRITE_MODE_UUID = 'd3a7b321-0001-4000-8000-000000000011';
+
+export enum WriteModeCommand {
+  /** Following settings writes are kept in RAM only */
+  AUDITION = 0,
+  /** Persist the auditioned settings to flash and leave audition mode */
+  COMMIT = 1,
+  /** Restore the last persisted settings and leave audition mode */
+  REVERT = 2,
+}
+
+export interface WriteModeState {
+  auditioning: boolean;
+  /** RAM settings differ from flash */
+  dirty: boolean;
+}
+
+/**
+ * Format: [command(1 byte)]
+ */
+export function encodeWriteModeCommand(command: WriteModeCommand): Uint8Array {
+  return new Uint8Array([command]);
+}
+
+/**
+ * Format: [auditioning(1 byte)][dirty(1 byte)]
+ */
+export function decodeWriteModeState(data: DataView): WriteModeState {
+  if (data.byteLength < 2) {
+    throw new Error(`Write mode payload too short: ${data.byteLength} bytes`);
+  }
+  return {
+    auditioning: data.getUint8(0) === 1,
+    dirty: data.getUint8(1) === 1,
+  };
+}
+
+/**
+ * Device reset characteristic: a write resets part of the device to firmware
+ * defaults; a read returns those defaults for every settings section
+ */
+export const DEVICE_RESET_UUID = 'd3a7b321-0001-4000-8000-000000000012';
+
+export enum DeviceResetScope {
+  /** Settings, fader mappings and preset slots */
+  FACTORY = 0,
+  /** Every settings section */
+  SETTINGS = 1,
+  /** One settings section */
+  SECTION = 2,
+  CC_MAPPINGS = 3,
+  /** Clear every preset slot */
+  PRESETS = 4,
+}
+
+/**
+ * Encode a reset command
+ * Format: [scope(1 byte)][section index(1 byte), SETTINGS_SECTIONS order; 0 unless scope is SECTION]
+ */
+export function encodeDeviceReset(scope: DeviceResetScope, section?: SettingsSection): Uint8Array {
+  if (scope === DeviceResetScope.SECTION && !section) {
+    throw new Error('Section reset needs a section');
+  }
+  const index = scope === DeviceResetScope.SECTION ? SETTINGS_SECTIONS.indexOf(section!) : 0;
+  return new Uint8Array([scope, index]);
+}
+
+/**
+ * Decode the firmware's default settings
+ * Format: per section, in SETTINGS_SECTIONS order: [length(1)][section bytes]
+ */
+export function decodeFactoryDefaults(data: DataView): SettingsPayloads {
+  return decodeSectionList(data, 0, 'Factory defaults');
+}
+
+/**
+ * Encode the firmware's default settings (used by the simulated device)
+ */
+export function encodeFactoryDefaults(sections: Partial<Record<SettingsSection, Uint8Array>>): Uint8Array {
+  return new Uint8Array(encodeSectionList(sections));
+}
+
+/**
+ * Device name characteristic: the name the KB1 advertises, stored in flash
+ * A write renames the device; the new name is advertised from the next
+ * connection (browsers may show the old name until they rescan).
+ */
+export const DEVICE_NAME_UUID = 'd3a7b321-0001-4000-8000-000000000013';
+
+export const DEVICE_NAME = {
+  /** Every KB1 name starts with this, so the chooser filter still finds it */
+  PREFIX: 'KB1',
+  /** Longest name that fits the advertisement alongside the service UUID */
+  MAX_LENGTH: 20,
+} as const;
+
+/**
+ * Check a device name before renaming
+ * Returns an error message, or null if the name is valid. Names are ASCII
+ * letters, digits, spaces, '-' and '_' so they advertise unchanged.
+ */
+export function validateDeviceName(name: string): string | null {
+  if (!name.startsWith(DEVICE_NAME.PREFIX)) {
+    return `Name must start with "${DEVICE_NAME.PREFIX}"`;
+  }
+  if (name.length > DEVICE_NAME.MAX_LENGTH) {
+    return `Name is too long (${name.length}/${DEVICE_NAME.MAX_LENGTH} characters)`;
+  }
+  if (!/^[A-Za-z0-9 _-]*$/.test(name)) {
+    return 'Use only letters, digits, spaces, "-" and "_"';
+  }
+  if (name !== name.trim()) {
+    return 'Name cannot start or end with a space';
+  }
+  return null;
+}
+
+/**
+ * Encode a rename command
+ * Format: [name (ASCII, no terminator)]
+ */
+export function encodeDeviceName(name: string): Uint8Array {
+  const error = validateDeviceName(name);
+  if (error) {
+    throw new Error(error);
+  }
+  return new TextEncoder().encode(name);
+}
+
+/**
+ * Decode the device name characteristic (trailing NUL padding is ignored)
+ */
+export function decodeDeviceName(data: DataView): string {
+  return new TextDecoder().decode(data).replace(/\0+$/, '');
+}
+
 /**
  * BLE Characteristic UUIDs for presets
  */
@@ -538,24 +762,89 @@ export const PRESET_CHARACTERISTIC_UUIDS = {
   LOAD: 'd3a7b321-0001-4000-8000-00000000000a',
   LIST: 'd3a7b321-0001-4000-8000-00000000000b',
   DELETE: 'd3a7b321-0001-4000-8000-00000000000c',
+  READ: 'd3a7b321-0001-4000-8000-00000000000f',
+  SLOT_OP: 'd3a7b321-0001-4000-8000-000000000010',
 } as const;
 
+/**
+ * Slot operations handled natively by the preset slot-op characteristic
+ * The firmware keeps each preset's name and timestamp.
+ */
+export enum PresetSlotOperation {
+  COPY = 0,
+  MOVE = 1,
+  SWAP = 2,
+}
+
+/**
+ * Truncate a string to at most maxBytes of UTF-8 without splitting a character
+ */
+export function truncateUtf8(text: string, maxBytes: number): string {
+  const encoder = new TextEncoder();
+  let bytes = 0;
+  let result = '';
+  // for...of walks code points, so surrogate pairs stay together
+  for (const char of text) {
+    bytes += encoder.encode(char).length;
+    if (bytes > maxBytes) break;
+    result += char;
+  }
+  return result;
+}
+
+/**
+ * Check a device preset name before saving
+ * Returns an error message, or null if the name round-trips unchanged.
+ */
+export function validateDevicePresetName(name: string): string | null {
+  if (!name.trim()) {
+    return 'Name is required';
+  }
+  if (/[\u0000-\u001f\u007f]/.test(name)) {
+    return 'Name contains control characters';
+  }
+  // Unpaired surrogates would be stored as U+FFFD
+  if (/[\ud800-\udbff](?![\udc00-\udfff])|(?<![\ud800-\udbff])[\udc00-\udfff]/.test(name)) {
+    return 'Name contains invalid characters';
+  }
+  const bytes = new TextEncoder().encode(name).length;
+  if (bytes > DEVICE_PRESET.NAME_MAX_BYTES) {
+    return `Name is too long (${bytes}/${DEVICE_PRESET.NAME_MAX_BYTES} bytes)`;
+  }
+  return null;
+}
+
+/**
+ * Decode a NUL-terminated preset name field
+ * A multi-byte character cut off at the end of the field (older clients
+ * truncated mid-character) is dropped rather than shown as U+FFFD.
+ */
+export function decodePresetName(field: Uint8Array): string {
+  const nullIndex = field.indexOf(0);
+  const bytes = nullIndex >= 0 ? field.subarray(0, nullIndex) : field;
+  // stream mode holds back an incomplete trailing sequence instead of replacing it
+  return new TextDecoder().decode(bytes, { stream: true });
+}
+
 /**
  * Encode preset save command
- * Format: [slot#(1 byte)][name(32 bytes)]
+ * Format: [slot#(1 byte)][name(32 bytes)][timestamp(4 bytes, LE)]
+ * @param timestamp Unix seconds stored with the preset (defaults to now)
  */
-export function encodePresetSave(slot: number, name: string): Uint8Array {
+export function encodePresetSave(slot: number, name: string, timestamp: number = Math.floor(Date.now() / 1000)): Uint8Array {
   if (slot < 0 || slot >= DEVICE_PRESET.MAX_SLOTS) {
     throw new Error(`Invalid slot: ${slot}`);
   }
   
-  const buffer = new Uint8Array(33);
+  const buffer = new Uint8Array(1 + DEVICE_PRESET.NAME_FIELD_BYTES + 4);
   buffer[0] = slot;
   
-  // Encode name (truncate/pad to 32 bytes)
-  const nameBytes = new TextEncoder().encode(name.slice(0, DEVICE_PRESET.NAME_MAX_LENGTH));
+  // Encode name (truncated at a character boundary, NUL-padded)
+  const nameBytes = new TextEncoder().encode(truncateUtf8(name, DEVICE_PRESET.NAME_MAX_BYTES));
   buffer.set(nameBytes, 1);
   
+  new DataView(buffer.buffer).setUint32(1 + DEVICE_PRESET.NAME_FIELD_BYTES, timestamp >>> 0, true);
+  
   return buffer;
 }
 
@@ -583,6 +872,98 @@ export function encodePresetDelete(slot: number): Uint8Array {
   return new Uint8Array([slot]);
 }
 
+/**
+ * Encode preset read selection (the next read returns this slot's contents)
+ * Format: [slot#(1 byte)]
+ */
+export function encodePresetRead(slot: number): Uint8Array {
+  if (slot < 0 || slot >= DEVICE_PRESET.MAX_SLOTS) {
+    throw new Error(`Invalid slot: ${slot}`);
+  }
+  
+  return new Uint8Array([slot]);
+}
+
+/**
+ * Encode a native slot operation
+ * Format: [operation(1 byte)][from slot#(1 byte)][to slot#(1 byte)]
+ */
+export function encodePresetSlotOperation(operation: PresetSlotOperation, from: number, to: number): Uint8Array {
+  for (const slot of [from, to]) {
+    if (slot < 0 || slot >= DEVICE_PRESET.MAX_SLOTS) {
+      throw new Error(`Invalid slot: ${slot}`);
+    }
+  }
+  if (from === to) {
+    throw new Error(`Source and destination are both slot ${from}`);
+  }
+  
+  return new Uint8Array([operation, from, to]);
+}
+
+/**
+ * Raw contents of a preset slot, as returned by the preset read characteristic
+ */
+export interface DevicePresetContents {
+  slot: number;
+  isValid: boolean;
+  /** Settings sections stored in the slot (older firmware may store fewer) */
+  payloads: SettingsPayloads;
+}
+
+/**
+ * Decode preset read response
+ * Format: [slot#(1)][isValid(1)] then per section, in SETTINGS_SECTIONS order:
+ * [length(1)][section bytes]. Sections the firmware doesn't store are omitted.
+ */
+export function decodePresetContents(data: DataView): DevicePresetContents {
+  if (data.byteLength < 2) {
+    throw new Error(`Preset read payload too short: ${data.byteLength} bytes`);
+  }
+  
+  return {
+    slot: data.getUint8(0),
+    isValid: data.getUint8(1) === 1,
+    payloads: decodeSectionList(data, 2, 'Preset read'),
+  };
+}
+
+/**
+ * Encode preset read response (used by the simulated device)
+ */
+export function encodePresetContents(slot: number, isValid: boolean, sections: Partial<Record<SettingsSection, Uint8Array>>): Uint8Array {
+  return new Uint8Array([slot, isValid ? 1 : 0, ...encodeSectionList(sections)]);
+}
+
+/**
+ * Decode a list of settings sections, in SETTINGS_SECTIONS order:
+ * [length(1)][section bytes] each. Sections missing from the end are omitted.
+ */
+function decodeSectionList(data: DataView, offset: number, label: string): SettingsPayloads {
+  const payloads: SettingsPayloads = {};
+  for (const section of SETTINGS_SECTIONS) {
+    if (offset >= data.byteLength) break;
+    
+    const length = data.getUint8(offset);
+    if (offset + 1 + length > data.byteLength) {
+      throw new Error(`${label} payload truncated in ${section} section`);
+    }
+    payloads[section] = new DataView(data.buffer, data.byteOffset + offset + 1, length);
+    offset += 1 + length;
+  }
+  return payloads;
+}
+
+function encodeSectionList(sections: Partial<Record<SettingsSection, Uint8Array>>): number[] {
+  const parts: number[] = [];
+  for (const section of SETTINGS_SECTIONS) {
+    const bytes = sections[section];
+    if (!bytes) break;
+    parts.push(bytes.byteLength, ...bytes);
+  }
+  return parts;
+}
+
 /**
  * Decode preset list response
  * Format: [meta0][meta1]...[meta7] (40 bytes each)
@@ -598,11 +979,7 @@ export function decodePresetList(data: DataView): DevicePresetMetadata[] {
     const offset = slot * METADATA_SIZE;
     
     // Extract name (32 bytes, null-terminated)
-    const nameBytes = new Uint8Array(data.buffer, data.byteOffset + offset, 32);
-    const nullIndex = nameBytes.indexOf(0);
-    const name = new TextDecoder().decode(
-      nullIndex >= 0 ? nameBytes.slice(0, nullIndex) : nameBytes
-    );
+    const name = decodePresetName(new Uint8Array(data.buffer, data.byteOffset + offset, DEVICE_PRESET.NAME_FIELD_BYTES));
     
     // Extract timestamp (4 bytes, little-endian)
     const timestamp = data.getUint32(offset + 32, true);
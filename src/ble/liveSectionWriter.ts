@@ -0,0 +1,175 @@
+/**
+ * Live Section Writer - Debounced, last-value-wins settings writes
+ *
+ * In live-edit mode every edited section is written shortly after the last
+ * change to it. Edits to a section that arrive while it is waiting (or being
+ * written) replace the pending value, so a drag across a slider ends in one
+ * or two writes instead of dozens. Sections are written one at a time in the
+ * order they became due; the writes themselves go through the client's GATT
+ * queue like any other settings write.
+ */
+
+import type { DeviceSettings } from './kb1Protocol';
+import type { SettingsSection } from './settingsCodec';
+
+export type SectionSender = <S extends SettingsSection>(section: S, settings: DeviceSettings[S]) => Promise<void>;
+
+export interface LiveWriterState {
+  /** Sections edited but not yet written */
+  pending: SettingsSection[];
+  /** Section being written right now */
+  writing: SettingsSection | null;
+  /** Last failed write (cleared by the next successful one) */
+  error: { section: SettingsSection; message: string } | null;
+}
+
+export type LiveWriterStateCallback = (state: LiveWriterState) => void;
+
+interface PendingSection {
+  value: DeviceSettings[SettingsSection];
+  timer: ReturnType<typeof setTimeout> | null;
+  waiters: { resolve: () => void; reject: (error: unknown) => void }[];
+}
+
+export class LiveSectionWriter {
+  private readonly send: SectionSender;
+  private readonly debounceMs: number;
+  private pending = new Map<SettingsSection, PendingSection>();
+  // Sections whose debounce has elapsed, in the order they became due
+  private due: SettingsSection[] = [];
+  private writing: SettingsSection | null = null;
+  private draining: Promise<void> | null = null;
+  private error: LiveWriterState['error'] = null;
+  private onStateChange: LiveWriterStateCallback | null = null;
+
+  /**
+   * @param send Writes one section to the device
+   * @param debounceMs Quiet time after the last edit before a section is written
+   */
+  constructor(send: SectionSender, debounceMs: number = 250) {
+    this.send = send;
+    this.debounceMs = debounceMs;
+  }
+
+  setStateChangeCallback(callback: LiveWriterStateCallback | null): void {
+    this.onStateChange = callback;
+  }
+
+  /**
+   * Queue the latest value for a section
+   * Resolves once this value, or a newer one for the same section, is written.
+   */
+  push<S extends SettingsSection>(section: S, value: DeviceSettings[S]): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const entry = this.pending.get(section) ?? { value, timer: null, waiters: [] };
+      entry.value = value;
+      entry.waiters.push({ resolve, reject });
+      this.pending.set(section, entry);
+
+      // Restart the quiet period unless the section is already due
+      if (!this.due.includes(section)) {
+        if (entry.timer) {
+          clearTimeout(entry.timer);
+        }
+        entry.timer = setTimeout(() => {
+          entry.timer = null;
+          this.due.push(section);
+          void this.drain();
+        }, this.debounceMs);
+      }
+      this.emitState();
+    });
+  }
+
+  /**
+   * Write every pending section now, without waiting for the debounce
+   */
+  async flush(): Promise<void> {
+    const waits: Promise<void>[] = [];
+    for (const [section, entry] of this.pending) {
+      waits.push(new Promise<void>((resolve, reject) => entry.waiters.push({ resolve, reject })));
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+        entry.timer = null;
+      }
+      if (!this.due.includes(section)) {
+        this.due.push(section);
+      }
+    }
+    void this.drain();
+    await Promise.all(waits);
+  }
+
+  /**
+   * Drop all pending sections, rejecting their callers
+   * A write already in progress still completes.
+   */
+  clear(reason: string): void {
+    const dropped = [...this.pending.values()];
+    this.pending.clear();
+    this.due = [];
+    for (const entry of dropped) {
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+      }
+      entry.waiters.forEach(waiter => waiter.reject(new Error(reason)));
+    }
+    this.error = null;
+    this.emitState();
+  }
+
+  /**
+   * Resolves once no write is in progress (pending sections aren't waited for)
+   */
+  whenIdle(): Promise<void> {
+    return this.draining ?? Promise.resolve();
+  }
+
+  getState(): LiveWriterState {
+    return {
+      pending: [...this.pending.keys()],
+      writing: this.writing,
+      error: this.error,
+    };
+  }
+
+  private drain(): Promise<void> {
+    this.draining ??= this.writeDue().finally(() => {
+      this.draining = null;
+      // Sections that became due after the last loop check
+      if (this.due.length > 0) {
+        void this.drain();
+      }
+    });
+    return this.draining;
+  }
+
+  private async writeDue(): Promise<void> {
+    while (this.due.length > 0) {
+      const section = this.due.shift()!;
+      const entry = this.pending.get(section);
+      if (!entry) {
+        continue;
+      }
+      this.pending.delete(section);
+      this.writing = section;
+      this.emitState();
+
+      try {
+        await this.send(section, entry.value);
+        this.error = null;
+        entry.waiters.forEach(waiter => waiter.resolve());
+      } catch (error) {
+        console.warn(`⚠️ Live write of ${section} failed:`, error);
+        this.error = { section, message: error instanceof Error ? error.message : String(error) };
+        entry.waiters.forEach(waiter => waiter.reject(error));
+      }
+      this.writing = null;
+    }
+    this.emitState();
+  }
+
+  private emitState(): void {
+    this.onStateChange?.(this.getState());
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Memory Transport - In-memory KB1Transport
+ *
+ * Holds characteristic values in memory so BLEClient can run without a real
+ * device or browser Bluetooth stack. Characteristics can attach read/write
+ * handlers to emulate firmware behaviour.
+ */
+
+import { toDataView, type KB1Transport, type NotificationListener } from './transport';
+
+/**
+ * Definition of an in-memory characteristic
+ */
+export interface MemoryCharacteristic {
+  /** Current value returned by reads when no onRead handler is set */
+  value: DataView;
+  /** Produce the read value on demand */
+  onRead?: () => DataView;
+  /** Handle a write; when set, the handler owns updating `value` */
+  onWrite?: (data: DataView) => void | Promise<void>;
+}
+
+export interface MemoryTransportOptions {
+  deviceName?: string;
+  /** Artificial delay applied to every operation, in milliseconds */
+  latencyMs?: number;
+}
+
+// Distinguishes in-memory devices the way Web Bluetooth device ids do
+let memoryDeviceCount = 0;
+
+export class MemoryTransport implements KB1Transport {
+  readonly kind = 'memory';
+
+  private readonly deviceId = `memory-${++memoryDeviceCount}`;
+  private deviceName: string;
+  private readonly latencyMs: number;
+  private characteristics = new Map<string, MemoryCharacteristic>();
+  private listeners = new Map<string, NotificationListener>();
+  private discovered = new Set<string>();
+  private connected = false;
+  private onDisconnect: (() => void) | null = null;
+  private onLinkDown: (() => void) | null = null;
+
+  constructor(options: MemoryTransportOptions = {}) {
+    this.deviceName = options.deviceName ?? 'KB1 (Memory)';
+    this.latencyMs = options.latencyMs ?? 0;
+  }
+
+  /**
+   * Define (or replace) a characteristic exposed by the in-memory device
+   */
+  defineCharacteristic(uuid: string, characteristic: MemoryCharacteristic): void {
+    this.characteristics.set(uuid, characteristic);
+  }
+
+  /**
+   * Update a characteristic value from the device side and notify subscribers
+   */
+  notify(uuid: string, data: BufferSource): void {
+    const characteristic = this.characteristics.get(uuid);
+    const value = toDataView(data);
+    if (characteristic) {
+      characteristic.value = value;
+    }
+    this.listeners.get(uuid)?.(toDataView(value));
+  }
+
+  /**
+   * Change the name the in-memory device reports
+   */
+  setDeviceName(name: string): void {
+    this.deviceName = name;
+  }
+
+  /**
+   * Register a device-side callback for the link going down, whatever the
+   * cause (lets an emulated device drop per-connection state like firmware)
+   */
+  setLinkDownListener(listener: (() => void) | null): void {
+    this.onLinkDown = listener;
+  }
+
+  /**
+   * Simulate unexpected link loss
+   */
+  simulateDisconnect(): void {
+    if (!this.connected) {
+      return;
+    }
+    this.reset();
+    this.onDisconnect?.();
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async connect(characteristicUuids: readonly string[]): Promise<void> {
+    await this.delay();
+    this.discovered = new Set(characteristicUuids.filter(uuid => this.characteristics.has(uuid)));
+    this.connected = true;
+  }
+
+  async reconnect(characteristicUuids: readonly string[]): Promise<void> {
+    await this.connect(characteristicUuids);
+  }
+
+  async connectRemembered(characteristicUuids: readonly string[]): Promise<boolean> {
+    await this.connect(characteristicUuids);
+    return true;
+  }
+
+  async disconnect(): Promise<void> {
+    this.reset();
+  }
+
+  async release(): Promise<void> {
+    this.reset();
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  getDeviceName(): string | null {
+    return this.deviceName;
+  }
+
+  getDeviceId(): string | null {
+    return this.deviceId;
+  }
+
+  hasCharacteristic(uuid: string): boolean {
+    return this.discovered.has(uuid);
+  }
+
+  async read(uuid: string): Promise<DataView> {
+    const characteristic = this.getCharacteristic(uuid);
+    await this.delay();
+    return toDataView(characteristic.onRead ? characteristic.onRead() : characteristic.value);
+  }
+
+  async write(uuid: string, data: BufferSource): Promise<void> {
+    const characteristic = this.getCharacteristic(uuid);
+    await this.delay();
+    const value = toDataView(data);
+    if (characteristic.onWrite) {
+      await characteristic.onWrite(value);
+    } else {
+      characteristic.value = value;
+    }
+  }
+
+  async writeWithoutResponse(uuid: string, data: BufferSource): Promise<void> {
+    await this.write(uuid, data);
+  }
+
+  async startNotifications(uuid: string, listener: NotificationListener): Promise<void> {
+    this.getCharacteristic(uuid);
+    this.listeners.set(uuid, listener);
+  }
+
+  async stopNotifications(uuid: string): Promise<void> {
+    this.listeners.delete(uuid);
+  }
+
+  setDisconnectListener(listener: (() => void) | null): void {
+    this.onDisconnect = listener;
+  }
+
+  private getCharacteristic(uuid: string): MemoryCharacteristic {
+    const characteristic = this.characteristics.get(uuid);
+    if (!this.connected) {
+      throw new Error('Not connected to device');
+    }
+    if (!characteristic || !this.discovered.has(uuid)) {
+      throw new Error(`Characteristic ${uuid} not available`);
+    }
+    return characteristic;
+  }
+
+  private async delay(): Promise<void> {
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+  }
+
+  private reset(): void {
+    const wasConnected = this.connected;
+    this.connected = false;
+    this.listeners.clear();
+    this.discovered.clear();
+    if (wasConnected) {
+      this.onLinkDown?.();
+    }
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * Preset Slots - Copy, move, swap and reorder device preset slots
+ *
+ * Firmware with the native slot-op characteristic rearranges slots itself and
+ * keeps each preset's name and timestamp. Older firmware gets the same
+ * operations composed from load/save: every affected slot is loaded and read
+ * back, then saved into its new position under its original name. The active
+ * settings and fader mappings are snapshotted first and written back
+ * afterwards, with settings sync held so the UI never sees the slots passing
+ * through. Saves carry the preset's original timestamp. Settings writes are
+ * verified before a slot is saved, and a failed write stops the operation.
+ */
+
+import type { BLEClient } from './bleClient';
+import { DEVICE_PRESET, PresetSlotOperation, type CCMapping, type DeviceSettings } from './kb1Protocol';
+import { readFullSettings, writeCCMappings, writeFullSettings } from './deviceBackup';
+
+/**
+ * New contents of a slot: the slot whose preset it receives, or null to clear it
+ */
+type SlotPlacement = [target: number, source: number | null];
+
+interface SlotSnapshot {
+  name: string;
+  timestamp: number;
+  settings: DeviceSettings;
+  ccMappings?: CCMapping[];
+}
+
+/**
+ * Copy a preset into another slot, replacing whatever is there
+ */
+export async function copyDeviceSlot(client: BLEClient, from: number, to: number): Promise<void> {
+  await transferDeviceSlot(client, PresetSlotOperation.COPY, from, to);
+}
+
+/**
+ * Move a preset into another slot, replacing whatever is there and clearing the source
+ */
+export async function moveDeviceSlot(client: BLEClient, from: number, to: number): Promise<void> {
+  await transferDeviceSlot(client, PresetSlotOperation.MOVE, from, to);
+}
+
+/**
+ * Exchange the contents of two slots (either may be empty)
+ */
+export async function swapDeviceSlots(client: BLEClient, a: number, b: number): Promise<void> {
+  await transferDeviceSlot(client, PresetSlotOperation.SWAP, a, b);
+}
+
+/**
+ * Move a preset to a new position, shifting the slots in between by one
+ * This is what drag-to-reorder in the slot list does.
+ */
+export async function reorderDeviceSlots(client: BLEClient, from: number, to: number): Promise<void> {
+  validateSlots(from, to);
+  const step = from < to ? 1 : -1;
+
+  if (client.hasFeature('presetSlotOps')) {
+    // Bubble the preset along with adjacent swaps
+    for (let slot = from; slot !== to; slot += step) {
+      await client.transferDevicePreset(PresetSlotOperation.SWAP, slot, slot + step);
+    }
+    return;
+  }
+
+  const placements: SlotPlacement[] = [];
+  for (let slot = from; slot !== to; slot += step) {
+    placements.push([slot, slot + step]);
+  }
+  placements.push([to, from]);
+  await rearrangeSlots(client, placements);
+}
+
+async function transferDeviceSlot(client: BLEClient, operation: PresetSlotOperation, from: number, to: number): Promise<void> {
+  validateSlots(from, to);
+
+  if (operation !== PresetSlotOperation.SWAP) {
+    const metadata = await client.listDevicePresets();
+    if (!metadata[from]?.isValid) {
+      throw new Error(`Slot ${from + 1} is empty`);
+    }
+  }
+
+  if (client.hasFeature('presetSlotOps')) {
+    await client.transferDevicePreset(operation, from, to);
+    return;
+  }
+
+  switch (operation) {
+    case PresetSlotOperation.COPY:
+      await rearrangeSlots(client, [[to, from]]);
+      break;
+    case PresetSlotOperation.MOVE:
+      await rearrangeSlots(client, [[to, from], [from, null]]);
+      break;
+    case PresetSlotOperation.SWAP:
+      await rearrangeSlots(client, [[to, from], [from, to]]);
+      break;
+  }
+}
+
+/**
+ * Apply slot placements with load/save, leaving the active settings as they were
+ */
+async function rearrangeSlots(client: BLEClient, placements: SlotPlacement[]): Promise<void> {
+  if (!client.hasDevicePresetSupport()) {
+    throw new Error('Device presets not supported');
+  }
+
+  const metadata = await client.listDevicePresets();
+  const hasMappings = client.hasFeature('ccMappings');
+  const readMappings = async () => hasMappings ? (await client.readCCMappings()).mappings : undefined;
+
+  await client.withSettingsSyncHeld(async () => {
+    const activeSettings = await readFullSettings(client);
+    const activeMappings = await readMappings();
+    const restoreActive = async () => {
+      await writeFullSettings(client, activeSettings, 'active settings');
+      if (activeMappings) {
+        await writeCCMappings(client, activeMappings);
+      }
+    };
+
+    try {
+      // Read every source before writing anything, so swaps and shifts
+      // never read a slot that was already overwritten
+      const snapshots = new Map<number, SlotSnapshot>();
+      for (const [, source] of placements) {
+        const preset = source === null ? undefined : metadata[source];
+        if (!preset?.isValid || snapshots.has(preset.slot)) {
+          continue;
+        }
+        await client.loadDevicePreset(preset.slot);
+        snapshots.set(preset.slot, {
+          name: preset.name,
+          timestamp: preset.timestamp,
+          settings: await readFullSettings(client),
+          ccMappings: await readMappings(),
+        });
+      }
+
+      for (const [target, source] of placements) {
+        const snapshot = source === null ? undefined : snapshots.get(source);
+        if (snapshot) {
+          // Never save a slot from settings that didn't all reach the device
+          await writeFullSettings(client, snapshot.settings, `settings for slot ${target + 1}`);
+          if (snapshot.ccMappings) {
+            await writeCCMappings(client, snapshot.ccMappings);
+          }
+          await client.saveDevicePreset(target, snapshot.name, snapshot.timestamp);
+        } else if (metadata[target]?.isValid) {
+          await client.deleteDevicePreset(target);
+        }
+      }
+    } catch (error) {
+      // Report what went wrong with the slots, not a failed restore on top of it
+      await restoreActive().catch((restoreError) => {
+        console.error('❌ Could not restore active settings after slot operation:', restoreError);
+      });
+      throw error;
+    }
+    await restoreActive();
+  });
+}
+
+function validateSlots(from: number, to: number): void {
+  for (const slot of [from, to]) {
+    if (slot < 0 || slot >= DEVICE_PRESET.MAX_SLOTS) {
+      throw new Error(`Invalid slot: ${slot}`);
+    }
+  }
+  if (from === to) {
+    throw new Error(`Source and destination are both slot ${from + 1}`);
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * Settings Codec - Declarative binary layouts for KB1 settings characteristics
+ *
+ * Each settings characteristic is described by a single layout table that
+ * drives both encoding and decoding. Layouts are little-endian, matching the
+ * firmware structs in firmware/src/objects/Constants.h.
+ *
+ * Compatibility rules:
+ * - Required fields define the minimum payload length; shorter reads are rejected
+ * - Optional fields were appended in later firmware and fall back to a default
+ * - Hidden fields are firmware-internal and are carried over from the last read
+ * - Optional fields the settings object leaves out (e.g. from an older preset)
+ *   are carried over from the last read too
+ * - Bytes beyond the known layout (newer firmware) are ignored on decode and
+ *   preserved on encode when a previous payload is supplied
+ */
+
+import type { DeviceSettings } from './kb1Protocol';
+
+/**
+ * Settings section name (one characteristic per section)
+ */
+export type SettingsSection = keyof DeviceSettings;
+
+/**
+ * Binary field types supported by the layouts
+ */
+export type FieldType = 'int32' | 'uint32' | 'uint16' | 'uint8';
+
+/**
+ * Field descriptor within a characteristic layout
+ */
+export interface FieldSpec {
+  /** Property name in the decoded settings object */
+  key: string;
+  type: FieldType;
+  /** Field was appended in a later layout version and may be missing */
+  optional?: boolean;
+  /** Firmware-internal field, not exposed in the decoded settings object */
+  hidden?: boolean;
+  /** Value used when encoding without a value or decoding a short payload */
+  defaultValue?: number;
+}
+
+/**
+ * Layout table for a single settings characteristic
+ */
+export interface CharacteristicLayout {
+  section: SettingsSection;
+  uuid: string;
+  /** Layout version, bumped whenever firmware appends fields */
+  version: number;
+  fields: readonly FieldSpec[];
+}
+
+const FIELD_SIZES: Record<FieldType, number> = {
+  int32: 4,
+  uint32: 4,
+  uint16: 2,
+  uint8: 1,
+};
+
+/**
+ * Settings characteristic UUIDs (firmware/src/objects/Constants.h)
+ */
+export const SETTINGS_CHARACTERISTIC_UUIDS: Record<SettingsSection, string> = {
+  lever1: '6bae0d4d-a0a4-4bc6-9802-a5d27fb15680',
+  leverPush1: '1de84ff3-36c0-4cf6-912b-208600cf94f4',
+  lever2: '13ffbea4-793f-40f5-82da-ac9eca5f0e09',
+  leverPush2: '52629808-3d14-4ae8-a826-40bcec6467d5',
+  touch: '5612b54d-8bfe-4217-a079-c9c95ab32c41',
+  scale: '297bd635-c3e8-4fb4-b5e0-93586da8f14c',
+  system: '8f7e6d5c-4b3a-2c1d-0e9f-8a7b6c5d4e3f',
+};
+
+const LEVER_FIELDS: readonly FieldSpec[] = [
+  { key: 'ccNumber', type: 'int32' },
+  { key: 'minCCValue', type: 'int32' },
+  { key: 'maxCCValue', type: 'int32' },
+  { key: 'stepSize', type: 'int32' },
+  { key: 'functionMode', type: 'int32' },
+  { key: 'valueMode', type: 'int32' },
+  { key: 'onsetTime', type: 'int32' },
+  { key: 'offsetTime', type: 'int32' },
+  { key: 'onsetType', type: 'int32' },
+  { key: 'offsetType', type: 'int32' },
+];
+
+const LEVER_PUSH_FIELDS: readonly FieldSpec[] = [
+  { key: 'ccNumber', type: 'int32' },
+  { key: 'minCCValue', type: 'int32' },
+  { key: 'maxCCValue', type: 'int32' },
+  { key: 'functionMode', type: 'int32' },
+  { key: 'onsetTime', type: 'int32' },
+  { key: 'offsetTime', type: 'int32' },
+  { key: 'onsetType', type: 'int32' },
+  { key: 'offsetType', type: 'int32' },
+];
+
+/**
+ * Layout tables for every settings characteristic, in write order
+ */
+export const SETTINGS_LAYOUTS: Record<SettingsSection, CharacteristicLayout> = {
+  lever1: {
+    section: 'lever1',
+    uuid: SETTINGS_CHARACTERISTIC_UUIDS.lever1,
+    version: 1,
+    fields: LEVER_FIELDS,
+  },
+  leverPush1: {
+    section: 'leverPush1',
+    uuid: SETTINGS_CHARACTERISTIC_UUIDS.leverPush1,
+    version: 1,
+    fields: LEVER_PUSH_FIELDS,
+  },
+  lever2: {
+    section: 'lever2',
+    uuid: SETTINGS_CHARACTERISTIC_UUIDS.lever2,
+    version: 1,
+    fields: LEVER_FIELDS,
+  },
+  leverPush2: {
+    section: 'leverPush2',
+    uuid: SETTINGS_CHARACTERISTIC_UUIDS.leverPush2,
+    version: 1,
+    fields: LEVER_PUSH_FIELDS,
+  },
+  touch: {
+    section: 'touch',
+    uuid: SETTINGS_CHARACTERISTIC_UUIDS.touch,
+    version: 2,
+    fields: [
+      { key: 'ccNumber', type: 'int32' },
+      { key: 'minCCValue', type: 'int32' },
+      { key: 'maxCCValue', type: 'int32' },
+      { key: 'functionMode', type: 'int32' },
+      // v2: touch threshold (0-65535, lower = more sensitive)
+      { key: 'threshold', type: 'int32', optional: true, defaultValue: 24000 },
+    ],
+  },
+  scale: {
+    section: 'scale',
+    uuid: SETTINGS_CHARACTERISTIC_UUIDS.scale,
+    version: 1,
+    fields: [
+      { key: 'scaleType', type: 'int32' },
+      { key: 'rootNote', type: 'int32' },
+      { key: 'keyMapping', type: 'int32' },
+    ],
+  },
+  system: {
+    section: 'system',
+    uuid: SETTINGS_CHARACTERISTIC_UUIDS.system,
+    version: 1,
+    fields: [
+      { key: 'lightSleepTimeout', type: 'int32' },
+      { key: 'deepSleepTimeout', type: 'int32' },
+      { key: 'bleTimeout', type: 'int32' },
+      { key: 'idleConfirmTimeout', type: 'int32', optional: true, defaultValue: 2 },
+    ],
+  },
+};
+
+/**
+ * Ordered list of settings sections (matches firmware characteristic order)
+ */
+export const SETTINGS_SECTIONS = Object.keys(SETTINGS_LAYOUTS) as SettingsSection[];
+
+/**
+ * Full encoded length of a layout in bytes
+ */
+export function layoutLength(layout: CharacteristicLayout): number {
+  return layout.fields.reduce((total, field) => total + FIELD_SIZES[field.type], 0);
+}
+
+/**
+ * Minimum length a payload must have to decode (all required fields present)
+ */
+export function layoutMinLength(layout: CharacteristicLayout): number {
+  let length = 0;
+  for (const field of layout.fields) {
+    if (field.optional) break;
+    length += FIELD_SIZES[field.type];
+  }
+  return length;
+}
+
+function readField(view: DataView, offset: number, type: FieldType): number {
+  switch (type) {
+    case 'int32': return view.getInt32(offset, true);
+    case 'uint32': return view.getUint32(offset, true);
+    case 'uint16': return view.getUint16(offset, true);
+    case 'uint8': return view.getUint8(offset);
+  }
+}
+
+function writeField(view: DataView, offset: number, type: FieldType, value: number): void {
+  switch (type) {
+    case 'int32': view.setInt32(offset, value, true); break;
+    case 'uint32': view.setUint32(offset, value, true); break;
+    case 'uint16': view.setUint16(offset, value, true); break;
+    case 'uint8': view.setUint8(offset, value); break;
+  }
+}
+
+/**
+ * Decode a characteristic payload using its layout
+ * Hidden fields are omitted; optional fields missing from a short payload
+ * take their default value. Throws if a required field is missing.
+ */
+export function decodeSection<S extends SettingsSection>(
+  section: S,
+  data: DataView
+): DeviceSettings[S] {
+  const layout = SETTINGS_LAYOUTS[section];
+  const minLength = layoutMinLength(layout);
+  if (data.byteLength < minLength) {
+    throw new Error(
+      `${section} settings payload too short: expected at least ${minLength} bytes, got ${data.byteLength}`
+    );
+  }
+
+  const result: Record<string, number> = {};
+  let offset = 0;
+  for (const field of layout.fields) {
+    const size = FIELD_SIZES[field.type];
+    if (!field.hidden) {
+      if (offset + size <= data.byteLength) {
+        result[field.key] = readField(data, offset, field.type);
+      } else if (field.defaultValue !== undefined) {
+        result[field.key] = field.defaultValue;
+      }
+    }
+    offset += size;
+  }
+
+  return result as unknown as DeviceSettings[S];
+}
+
+/**
+ * Encode settings into a characteristic payload using its layout
+ * @param previous Last payload read from the device; hidden fields, omitted
+ *                 optional fields and any trailing bytes from newer firmware
+ *                 are carried over from it
+ */
+export function encodeSection<S extends SettingsSection>(
+  section: S,
+  settings: DeviceSettings[S],
+  previous?: DataView | null
+): ArrayBuffer {
+  const layout = SETTINGS_LAYOUTS[section];
+  const length = Math.max(layoutLength(layout), previous?.byteLength ?? 0);
+  const buffer = new ArrayBuffer(length);
+  const view = new DataView(buffer);
+
+  if (previous) {
+    new Uint8Array(buffer).set(
+      new Uint8Array(previous.buffer, previous.byteOffset, previous.byteLength)
+    );
+  }
+
+  const values = settings as unknown as Record<string, number | undefined>;
+  let offset = 0;
+  for (const field of layout.fields) {
+    const size = FIELD_SIZES[field.type];
+    const hasPrevious = previous !== undefined && previous !== null && offset + size <= previous.byteLength;
+
+    if (field.hidden || (field.optional && values[field.key] === undefined)) {
+      if (!hasPrevious) {
+        writeField(view, offset, field.type, field.defaultValue ?? 0);
+      }
+    } else {
+      const value = values[field.key] ?? field.defaultValue;
+      if (value === undefined) {
+        throw new Error(`${section} settings missing required field "${field.key}"`);
+      }
+      writeField(view, offset, field.type, value);
+    }
+    offset += size;
+  }
+
+  return buffer;
+}
+
+/**
+ * Returns true if encoding these settings takes values from the current
+ * device payload (hidden fields, or optional fields the settings leave out)
+ */
+export function needsPreviousPayload<S extends SettingsSection>(section: S, settings: DeviceSettings[S]): boolean {
+  const values = settings as unknown as Record<string, number | undefined>;
+  return SETTINGS_LAYOUTS[section].fields.some(field =>
+    field.hidden || (field.optional && values[field.key] === undefined)
+  );
+}
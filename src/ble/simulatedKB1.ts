@@ -0,0 +1,644 @@
+/**
+ * Simulated KB1 - In-memory firmware model for dev mode
+ *
+ * Exposes the same characteristics as the KB1 firmware over a MemoryTransport
+ * so dev mode runs the real BLEClient code paths. Settings are kept as raw
+ * characteristic bytes, exactly as the firmware stores them; active settings
+ * and preset slots persist in localStorage. The battery slowly drains and
+ * recharges so battery warnings can be seen in dev mode.
+ */
+
+import { MemoryTransport } from './memoryTransport';
+import { bytesEqual, toDataView } from './transport';
+import { MIDI_UUID, KEEPALIVE_UUID } from './bleClient';
+import { CC_MAPPING_UUID, DEVICE_NAME_UUID, decodeDeviceName, validateDeviceName, DEVICE_RESET_UUID, DeviceResetScope, encodeFactoryDefaults, WRITE_MODE_UUID, WriteModeCommand, DEVICE_PRESET, PRESET_CHARACTERISTIC_UUIDS, PresetSlotOperation, decodeControlChanges, decodePresetName, encodePresetContents, kb1Protocol } from './kb1Protocol';
+import { DEVICE_INFO_UUID, capabilityBitmap, encodeDeviceInfo, type DeviceFeature } from './deviceCapabilities';
+import { BATTERY_LEVEL_UUID, BATTERY_POWER_STATE_UUID, encodeBatteryLevel, encodeBatteryPowerState } from './batteryService';
+import { SETTINGS_LAYOUTS, SETTINGS_SECTIONS, encodeSection, layoutMinLength, type SettingsSection } from './settingsCodec';
+
+const SIM_SETTINGS_KEY = 'kb1-sim-settings';
+const SIM_PRESETS_KEY = 'kb1-sim-presets';
+const SIM_CC_MAPPINGS_KEY = 'kb1-sim-cc-mappings';
+const SIM_DEVICE_NAME_KEY = 'kb1-sim-device-name';
+
+// Reported over the device-info characteristic
+const SIM_FIRMWARE_VERSION: [number, number, number] = [1, 3, 0];
+const SIM_HARDWARE_REVISION = 2;
+const SIM_FEATURES: readonly DeviceFeature[] = ['presets', 'keepAlive', 'midiBatch', 'ccMappings', 'presetRead', 'presetSlotOps', 'audition', 'deviceReset', 'deviceName'];
+const SIM_FADER_COUNT = 8;
+
+// Battery model: one step per minute while connected, charger plugged in when nearly empty
+const SIM_BATTERY_TICK_MS = 60000;
+const SIM_BATTERY_DRAIN_PER_TICK = 1;
+const SIM_BATTERY_CHARGE_PER_TICK = 2;
+const SIM_BATTERY_PLUG_IN_PERCENT = 5;
+
+const PRESET_NAME_BYTES = 32;
+const PRESET_METADATA_SIZE = 40; // 32 (name) + 4 (timestamp) + 1 (isValid) + 3 (padding)
+
+type SectionBytes = Record<SettingsSection, Uint8Array>;
+
+/**
+ * Stored preset slot (firmware keeps a full copy of every settings struct)
+ */
+interface SimulatedPresetSlot {
+  name: string;
+  timestamp: number;
+  sections: SectionBytes;
+  /** Fader mapping table in characteristic format */
+  ccMappings: Uint8Array;
+}
+
+/**
+ * JSON-safe form of section bytes for localStorage
+ */
+type SerializedSections = Record<string, number[]>;
+
+interface SerializedPresetSlot {
+  name: string;
+  timestamp: number;
+  sections: SerializedSections;
+  ccMappings?: number[];
+}
+
+export class SimulatedKB1 {
+  readonly transport: MemoryTransport;
+
+  private active: SectionBytes;
+  private ccMappings: Uint8Array;
+  private slots: (SimulatedPresetSlot | null)[];
+  // Slot selected for the next preset read
+  private readSelection = 0;
+  // Persisted settings while auditioning (writes only change `active`)
+  private auditionBase: SectionBytes | null = null;
+  private readonly storageSuffix: string;
+  private batteryLevel = 80;
+  private batteryCharging = false;
+  private readonly batteryTimer: ReturnType<typeof setInterval>;
+
+  /**
+   * @param storageSuffix Appended to the localStorage keys, so several
+   *                      simulated units can be kept side by side
+   */
+  constructor(deviceName = 'KB1 (Dev Mode)', latencyMs = 20, storageSuffix = '') {
+    this.storageSuffix = storageSuffix;
+    this.transport = new MemoryTransport({ deviceName: localStorage.getItem(this.storageKey(SIM_DEVICE_NAME_KEY)) ?? deviceName, latencyMs });
+    this.active = this.loadActiveSettings();
+    this.ccMappings = this.loadCCMappings();
+    this.slots = this.loadPresetSlots();
+    this.defineCharacteristics();
+    this.transport.setLinkDownListener(() => this.dropAudition());
+    this.batteryTimer = setInterval(() => this.tickBattery(), SIM_BATTERY_TICK_MS);
+  }
+
+  /**
+   * Stop the simulated battery (for units that are no longer used)
+   */
+  dispose(): void {
+    clearInterval(this.batteryTimer);
+  }
+
+  /**
+   * Set the battery level and charging state, as if measured by the firmware
+   * Subscribed clients are told about the change via notifications.
+   */
+  simulateBattery(level: number, charging = this.batteryCharging): void {
+    this.batteryLevel = Math.max(0, Math.min(100, Math.round(level)));
+    this.batteryCharging = charging;
+    this.transport.notify(BATTERY_LEVEL_UUID, encodeBatteryLevel(this.batteryLevel) as BufferSource);
+    this.transport.notify(BATTERY_POWER_STATE_UUID, encodeBatteryPowerState(this.batteryCharging) as BufferSource);
+  }
+
+  /**
+   * Load a preset slot as if selected on the hardware itself
+   * Subscribed clients are told about the new settings via notifications.
+   */
+  simulateHardwarePresetLoad(slot: number): void {
+    this.loadPreset(new DataView(new Uint8Array([slot]).buffer));
+  }
+
+  private defineCharacteristics(): void {
+    for (const section of SETTINGS_SECTIONS) {
+      this.transport.defineCharacteristic(SETTINGS_LAYOUTS[section].uuid, {
+        value: new DataView(new ArrayBuffer(0)),
+        onRead: () => new DataView(this.active[section].slice().buffer),
+        onWrite: (data) => this.writeSettings(section, data),
+      });
+    }
+
+    this.transport.defineCharacteristic(DEVICE_INFO_UUID, {
+      value: new DataView(encodeDeviceInfo(SIM_FIRMWARE_VERSION, SIM_HARDWARE_REVISION, capabilityBitmap(SIM_FEATURES))),
+    });
+
+    this.transport.defineCharacteristic(BATTERY_LEVEL_UUID, {
+      value: new DataView(new ArrayBuffer(0)),
+      onRead: () => new DataView(encodeBatteryLevel(this.batteryLevel).buffer),
+    });
+
+    this.transport.defineCharacteristic(BATTERY_POWER_STATE_UUID, {
+      value: new DataView(new ArrayBuffer(0)),
+      onRead: () => new DataView(encodeBatteryPowerState(this.batteryCharging).buffer),
+    });
+
+    this.transport.defineCharacteristic(MIDI_UUID, {
+      value: new DataView(new ArrayBuffer(0)),
+      onWrite: (data) => this.receiveMidi(data),
+    });
+
+    this.transport.defineCharacteristic(CC_MAPPING_UUID, {
+      value: new DataView(new ArrayBuffer(0)),
+      onRead: () => new DataView(this.ccMappings.slice().buffer),
+      onWrite: (data) => this.writeCCMapping(data),
+    });
+
+    this.transport.defineCharacteristic(WRITE_MODE_UUID, {
+      value: new DataView(new ArrayBuffer(0)),
+      onRead: () => this.encodeWriteMode(),
+      onWrite: (data) => this.writeMode(data),
+    });
+
+    this.transport.defineCharacteristic(DEVICE_RESET_UUID, {
+      value: new DataView(new ArrayBuffer(0)),
+      onRead: () => new DataView(encodeFactoryDefaults(this.createDefaultSections()).buffer),
+      onWrite: (data) => this.reset(data),
+    });
+
+    this.transport.defineCharacteristic(DEVICE_NAME_UUID, {
+      value: new DataView(new ArrayBuffer(0)),
+      onRead: () => new DataView(new TextEncoder().encode(this.transport.getDeviceName() ?? '').buffer),
+      onWrite: (data) => this.rename(data),
+    });
+
+    this.transport.defineCharacteristic(KEEPALIVE_UUID, {
+      value: new DataView(new ArrayBuffer(1)),
+      onWrite: () => {
+        // Firmware only resets its idle timer; nothing to store
+      },
+    });
+
+    this.transport.defineCharacteristic(PRESET_CHARACTERISTIC_UUIDS.SAVE, {
+      value: new DataView(new ArrayBuffer(0)),
+      onWrite: (data) => this.savePreset(data),
+    });
+
+    this.transport.defineCharacteristic(PRESET_CHARACTERISTIC_UUIDS.LOAD, {
+      value: new DataView(new ArrayBuffer(0)),
+      onWrite: (data) => this.loadPreset(data),
+    });
+
+    this.transport.defineCharacteristic(PRESET_CHARACTERISTIC_UUIDS.LIST, {
+      value: new DataView(new ArrayBuffer(0)),
+      onRead: () => this.encodePresetList(),
+    });
+
+    this.transport.defineCharacteristic(PRESET_CHARACTERISTIC_UUIDS.READ, {
+      value: new DataView(new ArrayBuffer(0)),
+      onWrite: (data) => { this.readSelection = this.readSlot(data); },
+      onRead: () => this.encodePresetRead(),
+    });
+
+    this.transport.defineCharacteristic(PRESET_CHARACTERISTIC_UUIDS.DELETE, {
+      value: new DataView(new ArrayBuffer(0)),
+      onWrite: (data) => this.deletePreset(data),
+    });
+
+    this.transport.defineCharacteristic(PRESET_CHARACTERISTIC_UUIDS.SLOT_OP, {
+      value: new DataView(new ArrayBuffer(0)),
+      onWrite: (data) => this.transferPreset(data),
+    });
+  }
+
+  /**
+   * Store a settings write (firmware auto-persists every write)
+   */
+  private writeSettings(section: SettingsSection, data: DataView): void {
+    const minLength = layoutMinLength(SETTINGS_LAYOUTS[section]);
+    if (data.byteLength < minLength) {
+      throw new Error(`Simulated KB1 rejected ${section} write: ${data.byteLength} bytes, expected ${minLength}`);
+    }
+
+    this.active[section] = new Uint8Array(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+    this.persist();
+    console.log(`🔧 SIM: ${section} settings stored (${data.byteLength} bytes)`);
+  }
+
+  /**
+   * Format: [command(1 byte)]
+   */
+  private writeMode(data: DataView): void {
+    const command = data.byteLength > 0 ? data.getUint8(0) : -1;
+    switch (command) {
+      case WriteModeCommand.AUDITION:
+        this.auditionBase ??= this.cloneSections(this.active);
+        console.log('🔧 SIM: Audition mode on');
+        break;
+      case WriteModeCommand.COMMIT:
+        this.auditionBase = null;
+        this.persist();
+        console.log('🔧 SIM: Audition committed');
+        break;
+      case WriteModeCommand.REVERT:
+        if (this.auditionBase) {
+          this.active = this.auditionBase;
+          this.auditionBase = null;
+          this.notifySettings();
+        }
+        console.log('🔧 SIM: Audition reverted');
+        break;
+      default:
+        throw new Error(`Simulated KB1: unknown write mode command ${command}`);
+    }
+  }
+
+  /**
+   * Firmware reverts uncommitted audition changes when the link goes down
+   */
+  private dropAudition(): void {
+    if (this.auditionBase) {
+      this.active = this.auditionBase;
+      this.auditionBase = null;
+      console.log('🔧 SIM: Link lost, audition reverted');
+    }
+  }
+
+  /**
+   * Format: [scope(1 byte)][section index(1 byte)]
+   */
+  private reset(data: DataView): void {
+    const scope = data.byteLength > 0 ? data.getUint8(0) : -1;
+    const resetsSettings = scope === DeviceResetScope.FACTORY || scope === DeviceResetScope.SETTINGS || scope === DeviceResetScope.SECTION;
+
+    // Settings resets discard uncommitted audition changes
+    if (resetsSettings && this.auditionBase) {
+      this.active = this.auditionBase;
+      this.auditionBase = null;
+    }
+
+    switch (scope) {
+      case DeviceResetScope.FACTORY:
+        this.active = this.createDefaultSections();
+        this.ccMappings = this.createDefaultCCMappings();
+        this.slots = this.slots.map(() => null);
+        break;
+      case DeviceResetScope.SETTINGS:
+        this.active = this.createDefaultSections();
+        break;
+      case DeviceResetScope.SECTION: {
+        const section = SETTINGS_SECTIONS[data.byteLength > 1 ? data.getUint8(1) : -1];
+        if (!section) {
+          throw new Error('Simulated KB1: invalid reset section');
+        }
+        this.active[section] = this.createDefaultSections()[section];
+        break;
+      }
+      case DeviceResetScope.CC_MAPPINGS:
+        this.ccMappings = this.createDefaultCCMappings();
+        break;
+      case DeviceResetScope.PRESETS:
+        this.slots = this.slots.map(() => null);
+        break;
+      default:
+        throw new Error(`Simulated KB1: unknown reset scope ${scope}`);
+    }
+
+    this.persist();
+    console.log(`🔧 SIM: Reset ${DeviceResetScope[scope]}`);
+    if (resetsSettings) {
+      this.notifySettings();
+    }
+  }
+
+  /**
+   * Drain the battery while connected; charge it back to full when nearly empty
+   */
+  private tickBattery(): void {
+    if (!this.transport.isConnected()) {
+      return;
+    }
+    if (this.batteryCharging) {
+      const level = this.batteryLevel + SIM_BATTERY_CHARGE_PER_TICK;
+      this.simulateBattery(level, level < 100);
+    } else {
+      const level = this.batteryLevel - SIM_BATTERY_DRAIN_PER_TICK;
+      this.simulateBattery(level, level <= SIM_BATTERY_PLUG_IN_PERCENT);
+    }
+  }
+
+  /**
+   * Format: [name (ASCII, no terminator)]
+   * The simulated device advertises the new name straight away.
+   */
+  private rename(data: DataView): void {
+    const name = decodeDeviceName(data);
+    const error = validateDeviceName(name);
+    if (error) {
+      throw new Error(`Simulated KB1 rejected name "${name}": ${error}`);
+    }
+
+    this.transport.setDeviceName(name);
+    try {
+      localStorage.setItem(this.storageKey(SIM_DEVICE_NAME_KEY), name);
+    } catch (err) {
+      console.error('Failed to persist simulated device name:', err);
+    }
+    console.log(`🔧 SIM: Renamed to "${name}"`);
+  }
+
+  /**
+   * Format: [auditioning(1 byte)][dirty(1 byte)]
+   */
+  private encodeWriteMode(): DataView {
+    const base = this.auditionBase;
+    const dirty = !!base && SETTINGS_SECTIONS.some(section => !bytesEqual(toDataView(base[section]), toDataView(this.active[section])));
+    return new DataView(new Uint8Array([base ? 1 : 0, dirty ? 1 : 0]).buffer);
+  }
+
+  /**
+   * Push the active settings to subscribed clients (firmware notifies after
+   * changes that didn't come from a settings write)
+   */
+  private notifySettings(): void {
+    for (const section of SETTINGS_SECTIONS) {
+      this.transport.notify(SETTINGS_LAYOUTS[section].uuid, this.active[section].slice());
+    }
+  }
+
+  /**
+   * Format: [faderIndex(1)][ccNumber(1)][channel(1)][minValue(1)][maxValue(1)]
+   */
+  private writeCCMapping(data: DataView): void {
+    const faderIndex = data.byteLength >= 5 ? data.getUint8(0) : -1;
+    if (faderIndex < 0 || faderIndex >= SIM_FADER_COUNT) {
+      throw new Error(`Simulated KB1 rejected CC mapping write for fader ${faderIndex}`);
+    }
+
+    this.ccMappings.set(new Uint8Array(data.buffer, data.byteOffset + 1, 4), 1 + faderIndex * 4);
+    this.persist();
+    console.log(`🔧 SIM: Fader ${faderIndex} mapped to CC ${data.getUint8(1)}`);
+  }
+
+  /**
+   * Format: ASCII "CC,VALUE" or batched "CC,VALUE;CC,VALUE;..."
+   */
+  private receiveMidi(data: DataView): void {
+    const pairs = decodeControlChanges(data);
+    if (pairs) {
+      console.log(`🔧 SIM: MIDI CC ${pairs.map(({ cc, value }) => `${cc},${value}`).join(' ')}`);
+    } else {
+      console.warn('🔧 SIM: Ignoring unrecognized MIDI payload', Array.from(new Uint8Array(data.buffer)));
+    }
+  }
+
+  /**
+   * Format: [slot#(1 byte)][name(32 bytes)][timestamp(4 bytes, LE)]
+   * Older clients omit the timestamp; the device clock is used instead.
+   */
+  private savePreset(data: DataView): void {
+    const slot = this.readSlot(data);
+    const name = decodePresetName(new Uint8Array(data.buffer, data.byteOffset + 1, Math.min(PRESET_NAME_BYTES, data.byteLength - 1)));
+    const timestampOffset = 1 + PRESET_NAME_BYTES;
+    const timestamp = data.byteLength >= timestampOffset + 4 ? data.getUint32(timestampOffset, true) : 0;
+
+    this.slots[slot] = {
+      name,
+      timestamp: timestamp || Math.floor(Date.now() / 1000),
+      sections: this.cloneSections(this.active),
+      ccMappings: this.ccMappings.slice(),
+    };
+    this.persist();
+    console.log(`🔧 SIM: Saved slot ${slot} "${name}"`);
+  }
+
+  /**
+   * Format: [slot#(1 byte)]
+   */
+  private loadPreset(data: DataView): void {
+    const slot = this.readSlot(data);
+    const preset = this.slots[slot];
+    if (!preset) {
+      throw new Error(`Simulated KB1: slot ${slot} is empty`);
+    }
+
+    this.active = this.cloneSections(preset.sections);
+    this.ccMappings = preset.ccMappings.slice();
+    this.persist();
+    console.log(`🔧 SIM: Loaded slot ${slot} "${preset.name}"`);
+    this.notifySettings();
+  }
+
+  /**
+   * Format: [slot#(1 byte)]
+   */
+  private deletePreset(data: DataView): void {
+    const slot = this.readSlot(data);
+    this.slots[slot] = null;
+    this.persist();
+    console.log(`🔧 SIM: Deleted slot ${slot}`);
+  }
+
+  /**
+   * Format: [operation(1)][from slot#(1)][to slot#(1)]
+   * Slots keep their name and timestamp.
+   */
+  private transferPreset(data: DataView): void {
+    if (data.byteLength < 3) {
+      throw new Error(`Simulated KB1: slot operation too short (${data.byteLength} bytes)`);
+    }
+    const operation = data.getUint8(0);
+    const from = this.readSlot(data, 1);
+    const to = this.readSlot(data, 2);
+    const source = this.slots[from] ?? null;
+
+    switch (operation) {
+      case PresetSlotOperation.COPY:
+      case PresetSlotOperation.MOVE:
+        if (!source) {
+          throw new Error(`Simulated KB1: slot ${from} is empty`);
+        }
+        this.slots[to] = { ...source, sections: this.cloneSections(source.sections), ccMappings: source.ccMappings.slice() };
+        if (operation === PresetSlotOperation.MOVE) {
+          this.slots[from] = null;
+        }
+        break;
+      case PresetSlotOperation.SWAP:
+        this.slots[from] = this.slots[to] ?? null;
+        this.slots[to] = source;
+        break;
+      default:
+        throw new Error(`Simulated KB1: unknown slot operation ${operation}`);
+    }
+    this.persist();
+    console.log(`🔧 SIM: ${PresetSlotOperation[operation]} slot ${from} -> ${to}`);
+  }
+
+  /**
+   * Format: [meta0][meta1]...[meta7] (40 bytes each)
+   * Each metadata: [name(32)][timestamp(4)][isValid(1)][padding(3)]
+   */
+  private encodePresetList(): DataView {
+    const buffer = new Uint8Array(DEVICE_PRESET.MAX_SLOTS * PRESET_METADATA_SIZE);
+    const view = new DataView(buffer.buffer);
+    const encoder = new TextEncoder();
+
+    this.slots.forEach((preset, slot) => {
+      if (!preset) return;
+      const offset = slot * PRESET_METADATA_SIZE;
+      buffer.set(encoder.encode(preset.name).slice(0, PRESET_NAME_BYTES), offset);
+      view.setUint32(offset + 32, preset.timestamp, true);
+      view.setUint8(offset + 36, 1);
+    });
+
+    return view;
+  }
+
+  /**
+   * Format: [slot#(1)][isValid(1)] then [length(1)][bytes] per settings section
+   */
+  private encodePresetRead(): DataView {
+    const preset = this.slots[this.readSelection];
+    const bytes = encodePresetContents(this.readSelection, !!preset, preset?.sections ?? {});
+    return new DataView(bytes.buffer);
+  }
+
+  private readSlot(data: DataView, offset = 0): number {
+    const slot = data.byteLength > offset ? data.getUint8(offset) : -1;
+    if (slot < 0 || slot >= DEVICE_PRESET.MAX_SLOTS) {
+      throw new Error(`Simulated KB1: invalid slot ${slot}`);
+    }
+    return slot;
+  }
+
+  private createDefaultSections(): SectionBytes {
+    const defaults = kb1Protocol.createDefaultDeviceSettings();
+    const sections = {} as SectionBytes;
+    for (const section of SETTINGS_SECTIONS) {
+      sections[section] = new Uint8Array(encodeSection(section, defaults[section]));
+    }
+    return sections;
+  }
+
+  private createDefaultCCMappings(): Uint8Array {
+    const mappings = Array.from({ length: SIM_FADER_COUNT }, (_, i) => kb1Protocol.createDefaultCCMapping(i));
+    return new Uint8Array(kb1Protocol.encodeCCMappings(mappings));
+  }
+
+  private cloneSections(sections: SectionBytes): SectionBytes {
+    const clone = {} as SectionBytes;
+    for (const section of SETTINGS_SECTIONS) {
+      clone[section] = sections[section].slice();
+    }
+    return clone;
+  }
+
+  private serializeSections(sections: SectionBytes): SerializedSections {
+    const serialized: SerializedSections = {};
+    for (const section of SETTINGS_SECTIONS) {
+      serialized[section] = Array.from(sections[section]);
+    }
+    return serialized;
+  }
+
+  /**
+   * Rebuild section bytes, falling back to defaults for missing sections
+   */
+  private deserializeSections(serialized: SerializedSections): SectionBytes {
+    const sections = this.createDefaultSections();
+    for (const section of SETTINGS_SECTIONS) {
+      const bytes = serialized[section];
+      if (bytes) {
+        sections[section] = new Uint8Array(bytes);
+      }
+    }
+    return sections;
+  }
+
+  private loadActiveSettings(): SectionBytes {
+    try {
+      const stored = localStorage.getItem(this.storageKey(SIM_SETTINGS_KEY));
+      if (stored) {
+        return this.deserializeSections(JSON.parse(stored));
+      }
+    } catch (error) {
+      console.error('Failed to load simulated settings from localStorage:', error);
+    }
+    return this.createDefaultSections();
+  }
+
+  private loadCCMappings(): Uint8Array {
+    try {
+      const stored = localStorage.getItem(this.storageKey(SIM_CC_MAPPINGS_KEY));
+      if (stored) {
+        return new Uint8Array(JSON.parse(stored) as number[]);
+      }
+    } catch (error) {
+      console.error('Failed to load simulated CC mappings from localStorage:', error);
+    }
+    return this.createDefaultCCMappings();
+  }
+
+  private loadPresetSlots(): (SimulatedPresetSlot | null)[] {
+    try {
+      const stored = localStorage.getItem(this.storageKey(SIM_PRESETS_KEY));
+      if (stored) {
+        const parsed = JSON.parse(stored) as (SerializedPresetSlot | null)[];
+        return Array.from({ length: DEVICE_PRESET.MAX_SLOTS }, (_, slot) => {
+          const preset = parsed[slot];
+          return preset
+            ? {
+                name: preset.name,
+                timestamp: preset.timestamp,
+                sections: this.deserializeSections(preset.sections),
+                ccMappings: preset.ccMappings ? new Uint8Array(preset.ccMappings) : this.createDefaultCCMappings(),
+              }
+            : null;
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load simulated presets from localStorage:', error);
+    }
+    return this.createSeedPresets();
+  }
+
+  /**
+   * Sample slots shown on first use of dev mode
+   */
+  private createSeedPresets(): (SimulatedPresetSlot | null)[] {
+    const now = Math.floor(Date.now() / 1000);
+    const seeds: Record<number, { name: string; age: number }> = {
+      0: { name: 'Ambient Pad', age: 0 },
+      1: { name: 'Bass Heavy', age: 86400 },
+      3: { name: 'Performance', age: 172800 },
+    };
+
+    return Array.from({ length: DEVICE_PRESET.MAX_SLOTS }, (_, slot) => {
+      const seed = seeds[slot];
+      return seed
+        ? { name: seed.name, timestamp: now - seed.age, sections: this.createDefaultSections(), ccMappings: this.createDefaultCCMappings() }
+        : null;
+    });
+  }
+
+  private storageKey(key: string): string {
+    return key + this.storageSuffix;
+  }
+
+  private persist(): void {
+    try {
+      // Auditioned settings live in RAM only; flash keeps the base
+      localStorage.setItem(this.storageKey(SIM_SETTINGS_KEY), JSON.stringify(this.serializeSections(this.auditionBase ?? this.active)));
+      localStorage.setItem(this.storageKey(SIM_CC_MAPPINGS_KEY), JSON.stringify(Array.from(this.ccMappings)));
+      localStorage.setItem(this.storageKey(SIM_PRESETS_KEY), JSON.stringify(this.slots.map((preset): SerializedPresetSlot | null =>
+        preset
+          ? {
+              name: preset.name,
+              timestamp: preset.timestamp,
+              sections: this.serializeSections(preset.sections),
+              ccMappings: Array.from(preset.ccMappings),
+            }
+          : null
+      )));
+    } catch (error) {
+      console.error('Failed to persist simulated device state:', error);
+    }
+  }
+}
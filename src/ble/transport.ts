@@ -0,0 +1,127 @@
+/**
+ * KB1 Transport - Link abstraction for KB1 characteristic I/O
+ *
+ * BLEClient speaks the KB1 protocol in terms of "read/write/notify a
+ * characteristic by UUID". A transport provides that over a concrete link:
+ * Web Bluetooth in the browser, or an in-memory device for development.
+ */
+
+/**
+ * Listener for characteristic notifications
+ */
+export type NotificationListener = (data: DataView) => void;
+
+/**
+ * Transport interface implemented by every KB1 link
+ */
+export interface KB1Transport {
+  /** Short identifier for logging (e.g. 'web-bluetooth', 'memory') */
+  readonly kind: string;
+
+  /**
+   * Check if the underlying link is usable in this environment
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Open the link and discover the given characteristics
+   * Characteristics the device doesn't expose are skipped; use
+   * hasCharacteristic() to detect them afterwards.
+   */
+  connect(characteristicUuids: readonly string[]): Promise<void>;
+
+  /**
+   * Re-open the link to the previously connected device without prompting
+   * Throws if there is no previous device or it can't be reached.
+   */
+  reconnect(characteristicUuids: readonly string[]): Promise<void>;
+
+  /**
+   * Silently connect to a device the user granted access to earlier
+   * Resolves false when no remembered device is reachable.
+   */
+  connectRemembered(characteristicUuids: readonly string[]): Promise<boolean>;
+
+  /**
+   * Close the link (does not invoke the disconnect listener)
+   */
+  disconnect(): Promise<void>;
+
+  /**
+   * Forget the selected device without closing its link, which another
+   * transport may share (does not invoke the disconnect listener)
+   */
+  release(): Promise<void>;
+
+  isConnected(): boolean;
+
+  /**
+   * Name reported by the connected device, if any
+   */
+  getDeviceName(): string | null;
+
+  /**
+   * Identifier of the selected device, stable across reconnects (null if none)
+   */
+  getDeviceId(): string | null;
+
+  /**
+   * Check if a characteristic was discovered on connect
+   */
+  hasCharacteristic(uuid: string): boolean;
+
+  read(uuid: string): Promise<DataView>;
+
+  write(uuid: string, data: BufferSource): Promise<void>;
+
+  writeWithoutResponse(uuid: string, data: BufferSource): Promise<void>;
+
+  /**
+   * Subscribe to notifications (replaces any existing listener for the UUID)
+   */
+  startNotifications(uuid: string, listener: NotificationListener): Promise<void>;
+
+  stopNotifications(uuid: string): Promise<void>;
+
+  /**
+   * Register a callback for unexpected link loss
+   */
+  setDisconnectListener(listener: (() => void) | null): void;
+}
+
+/**
+ * Copy a buffer or view into a standalone DataView
+ */
+export function toDataView(data: ArrayBuffer | ArrayBufferView): DataView {
+  const bytes = ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data);
+  return new DataView(bytes.slice().buffer);
+}
+
+/**
+ * Compare the bytes of two views
+ */
+export function bytesEqual(a: DataView, b: DataView): boolean {
+  if (a.byteLength !== b.byteLength) {
+    return false;
+  }
+  for (let i = 0; i < a.byteLength; i++) {
+    if (a.getUint8(i) !== b.getUint8(i)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * 32-bit FNV-1a hash of a view's bytes
+ */
+export function hashBytes(data: DataView): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < data.byteLength; i++) {
+    hash ^= data.getUint8(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
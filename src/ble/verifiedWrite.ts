@@ -0,0 +1,151 @@
+/**
+ * Verified Writes - Transactional settings saves with read-back
+ *
+ * Each section is written, read back and compared byte for byte. A section
+ * that doesn't read back as written is retried; if it still fails, every
+ * section written so far is restored to the bytes read before the save, so
+ * the device is never left with half a save.
+ */
+
+import type { BLEClient } from './bleClient';
+import type { DeviceSettings } from './kb1Protocol';
+import { SETTINGS_SECTIONS, type SettingsSection } from './settingsCodec';
+import { bytesEqual } from './transport';
+
+export type SectionWriteStatus =
+  /** Written and read back unchanged */
+  | 'verified'
+  /** Verified after one or more retries */
+  | 'retried'
+  /** Could not be written and verified (restored to its previous value) */
+  | 'failed'
+  /** Written, then restored because another section failed */
+  | 'rolled-back'
+  /** Restoring the previous value failed too; the device value is unknown */
+  | 'rollback-failed'
+  /** Not written (characteristic unavailable, or an earlier section failed) */
+  | 'skipped';
+
+export interface SectionWriteResult {
+  section: SettingsSection;
+  status: SectionWriteStatus;
+  /** Writes attempted, retries included */
+  attempts: number;
+  error?: string;
+}
+
+export interface SettingsWriteReport {
+  /** One entry per requested section, in SETTINGS_SECTIONS order */
+  results: SectionWriteResult[];
+  /** Every available section was written and verified */
+  ok: boolean;
+  /** A failure restored the previous values of the sections it had touched */
+  rolledBack: boolean;
+}
+
+export interface VerifiedWriteOptions {
+  /** Extra attempts for a section that fails to verify (default 1) */
+  retries?: number;
+}
+
+/**
+ * Write settings sections and verify each one by reading it back
+ * Stops at the first section that can't be verified and restores the
+ * previous device values of everything written up to that point.
+ */
+export async function writeSettingsVerified(
+  client: BLEClient,
+  settings: DeviceSettings,
+  sections: readonly SettingsSection[] = SETTINGS_SECTIONS,
+  options: VerifiedWriteOptions = {}
+): Promise<SettingsWriteReport> {
+  const retries = options.retries ?? 1;
+  const requested = SETTINGS_SECTIONS.filter(section => sections.includes(section));
+  const results = new Map<SettingsSection, SectionWriteResult>();
+  // Device bytes before the save, for rollback
+  const previous = new Map<SettingsSection, DataView>();
+  let failed: SettingsSection | null = null;
+
+  for (const section of requested) {
+    if (failed) {
+      results.set(section, { section, status: 'skipped', attempts: 0, error: 'Not written after an earlier failure' });
+      continue;
+    }
+    if (!client.hasSettingsSection(section)) {
+      results.set(section, { section, status: 'skipped', attempts: 0, error: 'Not available on this firmware' });
+      continue;
+    }
+
+    let attempts = 0;
+    let error: string | undefined;
+    try {
+      previous.set(section, await client.readSectionBytes(section));
+    } catch (e) {
+      error = `Could not read current value: ${errorMessage(e)}`;
+    }
+
+    while (previous.has(section) && attempts <= retries) {
+      attempts++;
+      try {
+        const written = await client.writeSection(section, settings[section]);
+        const readBack = await client.readSectionBytes(section);
+        if (bytesEqual(written, readBack)) {
+          error = undefined;
+          break;
+        }
+        error = 'Device reported different values than written';
+      } catch (e) {
+        error = errorMessage(e);
+      }
+      console.warn(`⚠️ ${section} write not verified (attempt ${attempts}): ${error}`);
+    }
+
+    if (error === undefined) {
+      results.set(section, { section, status: attempts > 1 ? 'retried' : 'verified', attempts });
+    } else {
+      results.set(section, { section, status: 'failed', attempts, error });
+      failed = section;
+    }
+  }
+
+  if (failed) {
+    // Newest first, so the device steps back through the save in reverse
+    for (const section of [...previous.keys()].reverse()) {
+      const result = results.get(section)!;
+      try {
+        await restoreSection(client, section, previous.get(section)!);
+        if (result.status !== 'failed') {
+          result.status = 'rolled-back';
+        }
+      } catch (e) {
+        result.status = 'rollback-failed';
+        result.error = `Could not restore previous value: ${errorMessage(e)}`;
+      }
+    }
+    console.warn(`⚠️ Settings save failed at ${failed}; previous device values restored`);
+  }
+
+  const report: SettingsWriteReport = {
+    results: requested.map(section => results.get(section)!),
+    ok: failed === null,
+    rolledBack: failed !== null && previous.size > 0,
+  };
+  if (report.ok) {
+    console.log(`✅ Settings verified (${report.results.filter(r => r.status !== 'skipped').length} sections)`);
+  }
+  return report;
+}
+
+/**
+ * Write back a section's earlier bytes and check they took
+ */
+async function restoreSection(client: BLEClient, section: SettingsSection, data: DataView): Promise<void> {
+  await client.writeSectionBytes(section, data);
+  if (!bytesEqual(data, await client.readSectionBytes(section))) {
+    throw new Error('Device reported different values than restored');
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
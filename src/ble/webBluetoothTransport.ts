@@ -0,0 +1,261 @@
+/**
+ * Web Bluetooth Transport - KB1Transport over the browser Web Bluetooth API
+ *
+ * Handles device selection, GATT connection and characteristic discovery
+ * for the KB1 primary service plus optional standard services.
+ */
+
+import type { KB1Transport, NotificationListener } from './transport';
+
+export interface WebBluetoothTransportOptions {
+  /** Primary service holding all characteristics */
+  serviceUuid: string;
+  /** Device name prefix used to filter the chooser */
+  namePrefix: string;
+  /** Additional services searched for characteristics (e.g. Device Information) */
+  optionalServices?: string[];
+}
+
+export class WebBluetoothTransport implements KB1Transport {
+  readonly kind = 'web-bluetooth';
+
+  private readonly options: WebBluetoothTransportOptions;
+  private device: BluetoothDevice | null = null;
+  private server: BluetoothRemoteGATTServer | null = null;
+  private characteristics = new Map<string, BluetoothRemoteGATTCharacteristic>();
+  private notificationHandlers = new Map<string, (event: Event) => void>();
+  private onDisconnect: (() => void) | null = null;
+
+  constructor(options: WebBluetoothTransportOptions) {
+    this.options = options;
+  }
+
+  isAvailable(): boolean {
+    return typeof navigator !== 'undefined' && 'bluetooth' in navigator;
+  }
+
+  /**
+   * Request a device and connect
+   * This must be called from a user gesture (e.g., button click)
+   */
+  async connect(characteristicUuids: readonly string[]): Promise<void> {
+    if (!this.isAvailable()) {
+      throw new Error('Web Bluetooth is not supported in this browser');
+    }
+
+    const device = await navigator.bluetooth.requestDevice({
+      filters: [
+        { namePrefix: this.options.namePrefix }
+      ],
+      optionalServices: [this.options.serviceUuid, ...(this.options.optionalServices ?? [])]
+    });
+
+    if (!device) {
+      throw new Error('No device selected');
+    }
+
+    this.attachDevice(device);
+
+    try {
+      await this.openGatt(characteristicUuids);
+    } catch (error) {
+      this.reset();
+      throw error;
+    }
+  }
+
+  async reconnect(characteristicUuids: readonly string[]): Promise<void> {
+    if (!this.device) {
+      throw new Error('No previously connected device');
+    }
+
+    this.reset();
+    try {
+      await this.openGatt(characteristicUuids);
+    } catch (error) {
+      this.reset();
+      throw error;
+    }
+  }
+
+  /**
+   * Connect to the first reachable device returned by getDevices()
+   * Only supported where the browser implements persistent permissions.
+   */
+  async connectRemembered(characteristicUuids: readonly string[]): Promise<boolean> {
+    if (!this.isAvailable() || typeof navigator.bluetooth.getDevices !== 'function') {
+      return false;
+    }
+
+    const devices = await navigator.bluetooth.getDevices();
+    for (const device of devices) {
+      if (!device.name?.startsWith(this.options.namePrefix)) {
+        continue;
+      }
+
+      this.attachDevice(device);
+      try {
+        await this.openGatt(characteristicUuids);
+        return true;
+      } catch {
+        // Out of range or powered off; try the next remembered device
+        this.reset();
+      }
+    }
+
+    return false;
+  }
+
+  async disconnect(): Promise<void> {
+    const device = this.device;
+    this.reset();
+    if (device?.gatt?.connected) {
+      device.gatt.disconnect();
+    }
+  }
+
+  async release(): Promise<void> {
+    this.reset();
+    this.device?.removeEventListener('gattserverdisconnected', this.handleDisconnected);
+    this.device = null;
+  }
+
+  isConnected(): boolean {
+    return this.server?.connected ?? false;
+  }
+
+  getDeviceName(): string | null {
+    return this.device?.name ?? null;
+  }
+
+  getDeviceId(): string | null {
+    return this.device?.id ?? null;
+  }
+
+  hasCharacteristic(uuid: string): boolean {
+    return this.characteristics.has(uuid);
+  }
+
+  async read(uuid: string): Promise<DataView> {
+    return this.getCharacteristic(uuid).readValue();
+  }
+
+  async write(uuid: string, data: BufferSource): Promise<void> {
+    await this.getCharacteristic(uuid).writeValue(data);
+  }
+
+  async writeWithoutResponse(uuid: string, data: BufferSource): Promise<void> {
+    await this.getCharacteristic(uuid).writeValueWithoutResponse(data);
+  }
+
+  async startNotifications(uuid: string, listener: NotificationListener): Promise<void> {
+    const characteristic = this.getCharacteristic(uuid);
+    this.detachNotificationHandler(uuid);
+
+    const handler = (event: Event) => {
+      const value = (event.target as BluetoothRemoteGATTCharacteristic).value;
+      if (value) {
+        listener(value);
+      }
+    };
+    characteristic.addEventListener('characteristicvaluechanged', handler);
+    this.notificationHandlers.set(uuid, handler);
+
+    try {
+      await characteristic.startNotifications();
+    } catch (error) {
+      this.detachNotificationHandler(uuid);
+      throw error;
+    }
+  }
+
+  async stopNotifications(uuid: string): Promise<void> {
+    const characteristic = this.characteristics.get(uuid);
+    this.detachNotificationHandler(uuid);
+    if (characteristic && this.isConnected()) {
+      await characteristic.stopNotifications();
+    }
+  }
+
+  setDisconnectListener(listener: (() => void) | null): void {
+    this.onDisconnect = listener;
+  }
+
+  /**
+   * Connect to the GATT server and discover available characteristics
+   */
+  private async openGatt(characteristicUuids: readonly string[]): Promise<void> {
+    if (!this.device?.gatt) {
+      throw new Error('Device has no GATT server');
+    }
+
+    this.server = await this.device.gatt.connect();
+    const services = [await this.server.getPrimaryService(this.options.serviceUuid)];
+    for (const serviceUuid of this.options.optionalServices ?? []) {
+      try {
+        services.push(await this.server.getPrimaryService(serviceUuid));
+      } catch {
+        // Optional service not present on this device
+      }
+    }
+
+    for (const uuid of characteristicUuids) {
+      for (const service of services) {
+        try {
+          this.characteristics.set(uuid, await service.getCharacteristic(uuid));
+          break;
+        } catch {
+          // Not in this service; when missing everywhere callers check hasCharacteristic()
+        }
+      }
+    }
+  }
+
+  /**
+   * Make a device current and listen for its link loss
+   */
+  private attachDevice(device: BluetoothDevice): void {
+    if (this.device && this.device !== device) {
+      this.device.removeEventListener('gattserverdisconnected', this.handleDisconnected);
+    }
+    this.device = device;
+    // addEventListener ignores duplicate registrations of the same handler
+    this.device.addEventListener('gattserverdisconnected', this.handleDisconnected);
+  }
+
+  private getCharacteristic(uuid: string): BluetoothRemoteGATTCharacteristic {
+    const characteristic = this.characteristics.get(uuid);
+    if (!characteristic) {
+      throw new Error(`Characteristic ${uuid} not available`);
+    }
+    return characteristic;
+  }
+
+  private detachNotificationHandler(uuid: string): void {
+    const handler = this.notificationHandlers.get(uuid);
+    if (handler) {
+      this.characteristics.get(uuid)?.removeEventListener('characteristicvaluechanged', handler);
+      this.notificationHandlers.delete(uuid);
+    }
+  }
+
+  private readonly handleDisconnected = (): void => {
+    // Intentional disconnects reset state first and aren't reported as link loss
+    if (!this.server) {
+      return;
+    }
+    this.reset();
+    this.onDisconnect?.();
+  };
+
+  /**
+   * Drop GATT state (the device is kept to preserve its info)
+   */
+  private reset(): void {
+    for (const uuid of [...this.notificationHandlers.keys()]) {
+      this.detachNotificationHandler(uuid);
+    }
+    this.characteristics.clear();
+    this.server = null;
+  }
+}
@@ -3,85 +3,624 @@
  * 
  * This composable provides reactive state management for the KB1 device,
  * including connection status, CC mappings, and device settings.
+ * Several KB1s can be connected at once, each in its own session; the state
+ * and actions exposed here always refer to the active one.
  */
 
-import { ref, computed, watch, readonly } from 'vue';
-import { bleClient, type BLEConnectionStatus } from '../ble/bleClient';
-import { kb1Protocol, type CCMapping, type DeviceSettings, type DevicePresetMetadata, DEVICE_PRESET } from '../ble/kb1Protocol';
+import { ref, computed, readonly, shallowRef, type Ref, type WritableComputedRef } from 'vue';
+import { BLEClient, bleClient, createBLEClient, type BLEConnectionStatus } from '../ble/bleClient';
+import { SimulatedKB1 } from '../ble/simulatedKB1';
+import { firmwareUpdateMessage, type DeviceFeature } from '../ble/deviceCapabilities';
+import type { BatteryStatus } from '../ble/batteryService';
+import { changedSections } from '../state/settingsDiff';
+import { sleepTimerIssues } from '../state/sleepPlanner';
+import { compareThreeWay, mergeSettings, type PendingChangeSet, type SectionChoice, type SectionComparison } from '../state/reconcile';
+import { SETTINGS_SECTIONS, type SettingsSection } from '../ble/settingsCodec';
+import { copyDeviceSlot, moveDeviceSlot, reorderDeviceSlots, swapDeviceSlots } from '../ble/presetSlots';
+import { clearDevicePresetSlots, factoryResetDevice, resetDeviceCCMappings, resetDeviceSettings } from '../ble/deviceReset';
+import { writeSettingsVerified, type SettingsWriteReport } from '../ble/verifiedWrite';
+import { LiveSectionWriter, type LiveWriterState } from '../ble/liveSectionWriter';
+import { createDeviceBackup, readFullSettings, restoreDeviceBackup, writeCCMappings, type BackupProgressCallback, type DeviceBackup } from '../ble/deviceBackup';
+import { kb1Protocol, validateDevicePresetName, type CCMapping, type DeviceSettings, type DevicePresetMetadata, DEVICE_PRESET } from '../ble/kb1Protocol';
+import type { CCPair } from '../ble/ccCoalescer';
 
 // ============================================
-// DEV MODE - Reactive state with localStorage persistence
+// DEV MODE - Simulated KB1 with localStorage persistence
 // ============================================
-// WARNING: Dev mode simulates device connection with mock data for development
+// Dev mode swaps the BLE client onto an in-memory simulated KB1, so every
+// action runs the real client code paths without hardware.
 const DEV_MODE_KEY = 'kb1-dev-mode';
 const devMode = ref(localStorage.getItem(DEV_MODE_KEY) === 'true');
 
+// Transport used for real hardware, restored when dev mode is disabled
+const hardwareTransport = bleClient.getTransport();
+let simulatedDevice: SimulatedKB1 | null = null;
+
+function getSimulatedDevice(): SimulatedKB1 {
+  if (!simulatedDevice) {
+    simulatedDevice = new SimulatedKB1();
+  }
+  return simulatedDevice;
+}
+
 // Function to toggle dev mode
-function setDevMode(enabled: boolean) {
+async function setDevMode(enabled: boolean) {
   devMode.value = enabled;
   localStorage.setItem(DEV_MODE_KEY, enabled ? 'true' : 'false');
   
-  if (enabled) {
-    console.log('🔧 DEV MODE ENABLED: Simulating device with mock data');
-    // Auto-connect when enabling dev mode
-    connectionStatus.value = {
-      connected: true,
-      device: { name: 'KB1 (Dev Mode)' } as BluetoothDevice,
+  try {
+    // Added devices belong to the other mode's transport
+    for (const session of sessions.value.slice(1)) {
+      await removeSession(session.id);
+    }
+    
+    if (enabled) {
+      console.log('🔧 DEV MODE ENABLED: Using simulated KB1 device');
+      await bleClient.setTransport(getSimulatedDevice().transport);
+      // Auto-connect when enabling dev mode
+      await connectDevice();
+    } else {
+      await bleClient.setTransport(hardwareTransport);
+      console.log('✅ DEV MODE DISABLED: Hardware connection required');
+    }
+  } catch (error) {
+    console.error('Failed to switch dev mode:', error);
+  }
+}
+
+// ============================================
+// DEVICE SESSIONS - One per connected KB1
+// ============================================
+
+const DEFAULT_FADER_COUNT = 8;
+// Quiet time after the last edit before live mode writes a section
+const LIVE_EDIT_DEBOUNCE_MS = 250;
+
+// Snapshot state for restore functionality (first device only; others keep it in memory)
+const SNAPSHOT_KEY = 'kb1_snapshot_v1';
+// Edits made while disconnected (first device only, like the snapshot)
+const PENDING_CHANGES_KEY = 'kb1_pending_changes_v1';
+
+interface BaselineSnapshot {
+  ccMappings: CCMapping[];
+  settings: DeviceSettings;
+}
+
+/**
+ * A KB1 and everything the editor knows about it
+ * The first session wraps the shared bleClient and can't be removed;
+ * more are added for multi-device setups.
+ */
+interface DeviceSession {
+  id: number;
+  client: BLEClient;
+  /** localStorage key for the baseline snapshot (null: kept in memory) */
+  snapshotKey: string | null;
+  connectionStatus: Ref<BLEConnectionStatus>;
+  ccMappings: Ref<CCMapping[]>;
+  /** Physical fader count reported by the device (null until mappings are read) */
+  faderCount: Ref<number | null>;
+  deviceSettings: Ref<DeviceSettings>;
+  baselineSnapshot: Ref<BaselineSnapshot | null>;
+  devicePresets: Ref<DevicePresetMetadata[]>;
+  /** Settings sections changed on the device, not yet acknowledged by the UI */
+  remoteSettingsChange: Ref<{ sections: SettingsSection[]; at: number } | null>;
+  /** Battery level and charging state (null when disconnected or not reported) */
+  batteryStatus: Ref<BatteryStatus | null>;
+  /** Audition mode: settings previewed in device RAM, not yet committed to flash */
+  isAuditioning: Ref<boolean>;
+  /** Default settings reported by the connected firmware (null: use the app's copy) */
+  firmwareDefaults: DeviceSettings | null;
+  /** Settings last written while auditioning (deep copy, diffed against the next preview) */
+  auditionedSettings: DeviceSettings | null;
+  /** Previews run one after another so audition mode is entered only once */
+  auditionQueue: Promise<void>;
+  /** Live-edit mode: each edited section is written shortly after the last change */
+  isLiveEditing: Ref<boolean>;
+  liveWriteState: Ref<LiveWriterState>;
+  liveWriter: LiveSectionWriter;
+  /** Settings last handed to the live writer (deep copy, diffed against the next edit) */
+  liveSettings: DeviceSettings | null;
+  /** localStorage key for offline edits (null: kept in memory) */
+  pendingKey: string | null;
+  /** Edits made while disconnected, applied after reconciling with the device */
+  pendingChanges: Ref<PendingChangeSet | null>;
+  /** Three-way comparison waiting for a decision (set on connect with pending edits) */
+  reconciliation: Ref<Reconciliation | null>;
+  /** Sections the background read-back found changed on the device */
+  settingsDrift: Ref<SettingsDriftState | null>;
+}
+
+/**
+ * Settings found changed on the device without a notification
+ */
+export interface SettingsDriftState {
+  /** Drifted sections, in SETTINGS_SECTIONS order */
+  sections: SettingsSection[];
+  /** What the device holds for each drifted section */
+  device: Partial<DeviceSettings>;
+  detectedAt: number;
+}
+
+/**
+ * Offline edits compared with what the device holds after reconnecting
+ */
+export interface Reconciliation {
+  /** Settings read from the device on connect */
+  device: DeviceSettings;
+  comparisons: SectionComparison[];
+}
+
+/**
+ * Summary of a session for the device switcher
+ */
+export interface DeviceSummary {
+  id: number;
+  name: string;
+  connected: boolean;
+  active: boolean;
+}
+
+type SessionRefs = {
+  [K in keyof DeviceSession as DeviceSession[K] extends Ref ? K : never]: DeviceSession[K];
+};
+
+let nextSessionId = 1;
+
+function createSession(client: BLEClient, snapshotKey: string | null, pendingKey: string | null): DeviceSession {
+  const session: DeviceSession = {
+    id: nextSessionId++,
+    client,
+    snapshotKey,
+    pendingKey,
+    connectionStatus: ref<BLEConnectionStatus>({
+      connected: false,
+      state: 'disconnected',
+      deviceName: null,
       error: null,
+      reconnectAttempt: 0,
+      capabilities: null,
+    }),
+    ccMappings: ref<CCMapping[]>([]),
+    faderCount: ref<number | null>(null),
+    deviceSettings: ref<DeviceSettings>(kb1Protocol.createDefaultSettings()),
+    baselineSnapshot: ref<BaselineSnapshot | null>(null),
+    devicePresets: ref<DevicePresetMetadata[]>(createEmptyPresetSlots()),
+    remoteSettingsChange: ref(null),
+    batteryStatus: ref<BatteryStatus | null>(null),
+    isAuditioning: ref(false),
+    firmwareDefaults: null,
+    auditionedSettings: null,
+    auditionQueue: Promise.resolve(),
+    isLiveEditing: ref(false),
+    liveWriteState: ref<LiveWriterState>({ pending: [], writing: null, error: null }),
+    liveWriter: new LiveSectionWriter(async (section, value) => {
+      await client.writeSection(section, value);
+      session.deviceSettings.value = { ...session.deviceSettings.value, [section]: value };
+    }, LIVE_EDIT_DEBOUNCE_MS),
+    liveSettings: null,
+    pendingChanges: ref(loadPendingChanges(pendingKey)),
+    reconciliation: ref<Reconciliation | null>(null),
+    settingsDrift: ref<SettingsDriftState | null>(null),
+  };
+  wireSession(session);
+  return session;
+}
+
+function createEmptyPresetSlots(): DevicePresetMetadata[] {
+  return Array.from({ length: DEVICE_PRESET.MAX_SLOTS }, (_, i) => ({
+    slot: i,
+    name: DEVICE_PRESET.EMPTY_SLOT_NAME,
+    timestamp: 0,
+    isValid: false
+  }));
+}
+
+/**
+ * Route a client's callbacks into its own session
+ */
+function wireSession(session: DeviceSession) {
+  const { client } = session;
+  
+  client.setStatusChangeCallback((status) => {
+    session.connectionStatus.value = status;
+    
+    // Firmware drops uncommitted audition changes when the link goes down
+    session.isAuditioning.value = client.isAuditioning();
+    if (!session.isAuditioning.value) {
+      session.auditionedSettings = null;
+    }
+    
+    // Clear data on disconnect (kept while a dropped link is being restored).
+    // Settings keep their last known values so offline edits start from them.
+    if (status.state === 'disconnected' || status.state === 'gave-up') {
+      session.liveWriter.clear('Not connected to device');
+      session.isLiveEditing.value = false;
+      session.liveSettings = null;
+      session.ccMappings.value = [];
+      session.faderCount.value = null;
+      session.devicePresets.value = createEmptyPresetSlots();
+      session.reconciliation.value = null;
+      session.settingsDrift.value = null;
+      session.remoteSettingsChange.value = null;
+      session.firmwareDefaults = null;
+    }
+    
+    if (status.state === 'connected' || status.state === 'reconnected') {
+      readFirmwareDefaults(session).catch((error) => {
+        console.warn('Could not read firmware defaults:', error);
+      });
+      
+      // Compare offline edits with what the device holds now
+      if (session.pendingChanges.value) {
+        startReconciliation(session).catch((error) => {
+          console.warn('Could not compare offline edits with the device:', error);
+        });
+      }
+    }
+    
+    // Preset slots may have changed on the device while the link was down
+    if (status.state === 'reconnected' && client.hasDevicePresetSupport()) {
+      refreshDevicePresets(session).catch((error) => {
+        console.warn('Could not refresh device presets after reconnect:', error);
+      });
+    }
+  });
+  
+  client.setSettingsChangedCallback((section, settings) => {
+    // Settings changed on the hardware (e.g. preset loaded there)
+    session.deviceSettings.value = { ...session.deviceSettings.value, [section]: settings };
+    clearDrift(session, [section]);
+    
+    const sections = session.remoteSettingsChange.value?.sections ?? [];
+    session.remoteSettingsChange.value = {
+      sections: sections.includes(section) ? sections : [...sections, section],
+      at: Date.now(),
+    };
+  });
+  
+  client.setSettingsDriftCallback((drift) => {
+    // Changed without a notification (e.g. firmware that doesn't notify);
+    // deviceSettings keep the editor's view until the user picks a side
+    const device: Partial<DeviceSettings> = { ...session.settingsDrift.value?.device };
+    for (const { section, settings } of drift) {
+      Object.assign(device, { [section]: settings });
+    }
+    session.settingsDrift.value = {
+      sections: SETTINGS_SECTIONS.filter(section => section in device),
+      device,
+      detectedAt: Date.now(),
     };
-    // Initialize with mock data
-    deviceSettings.value = kb1Protocol.createDefaultSettings();
-    ccMappings.value = Array.from({ length: 8 }, (_, i) => 
-      kb1Protocol.createDefaultCCMapping(i)
-    );
-  } else {
-    console.log('✅ DEV MODE DISABLED: Hardware connection required');
+  });
+  
+  session.liveWriter.setStateChangeCallback((state) => {
+    session.liveWriteState.value = state;
+  });
+  
+  client.setBatteryChangedCallback((status) => {
+    session.batteryStatus.value = status;
+  });
+  
+  client.setDataReceivedCallback((data) => {
+    // Handle incoming data from device
+    const message = kb1Protocol.decodeMessage(data);
+    if (message) {
+      console.log('Received message from device:', message);
+      // TODO: Update state based on message type
+    }
+  });
+}
+
+const primarySession = createSession(bleClient, SNAPSHOT_KEY, PENDING_CHANGES_KEY);
+const sessions = shallowRef<DeviceSession[]>([primarySession]);
+const activeSession = shallowRef<DeviceSession>(primarySession);
+// Simulated units added in dev mode, by session
+const simulatedSessionDevices = new Map<number, SimulatedKB1>();
+// Unit numbers are never reused, so no two simulators share persisted state
+let nextSimulatedUnit = 2;
+
+/**
+ * The active session's value for a piece of state, readable and writable
+ */
+function activeRef<K extends keyof SessionRefs>(key: K): WritableComputedRef<SessionRefs[K]['value']> {
+  return computed({
+    get: () => activeSession.value[key].value,
+    set: (value) => { activeSession.value[key].value = value; },
+  });
+}
+
+/**
+ * Client of the active session
+ */
+function activeClient(): BLEClient {
+  return activeSession.value.client;
+}
+
+function findSession(id: number): DeviceSession {
+  const session = sessions.value.find(s => s.id === id);
+  if (!session) {
+    throw new Error(`Unknown device: ${id}`);
   }
+  return session;
 }
 
-// Global reactive state
-const connectionStatus = ref<BLEConnectionStatus>({
-  connected: devMode.value, // Auto-connect in dev mode
-  device: devMode.value ? { name: 'KB1 (Dev Mode)' } as BluetoothDevice : null,
-  error: null,
-});
+/**
+ * Disconnect a session and drop it (the first session is only disconnected)
+ */
+async function removeSession(id: number) {
+  const session = findSession(id);
+  await session.client.disconnect();
+  if (session === primarySession) {
+    return;
+  }
+  
+  sessions.value = sessions.value.filter(s => s !== session);
+  simulatedSessionDevices.get(id)?.dispose();
+  simulatedSessionDevices.delete(id);
+  if (activeSession.value === session) {
+    activeSession.value = primarySession;
+  }
+}
 
-const ccMappings = ref<CCMapping[]>([]);
-const deviceSettings = ref<DeviceSettings>(kb1Protocol.createDefaultSettings());
+// Global reactive state (the active session's)
+const connectionStatus = activeRef('connectionStatus');
+const ccMappings = activeRef('ccMappings');
+const faderCount = activeRef('faderCount');
+const deviceSettings = activeRef('deviceSettings');
+const baselineSnapshot = activeRef('baselineSnapshot');
+// Device preset slots (shared by every component using the composable)
+const devicePresets = activeRef('devicePresets');
+const remoteSettingsChange = activeRef('remoteSettingsChange');
+const batteryStatus = activeRef('batteryStatus');
+const isAuditioning = activeRef('isAuditioning');
+const isLiveEditing = activeRef('isLiveEditing');
+const pendingChanges = activeRef('pendingChanges');
+const reconciliation = activeRef('reconciliation');
+const settingsDrift = activeRef('settingsDrift');
+const liveWriteState = activeRef('liveWriteState');
 const isLoading = ref(false);
 
-// Initialize mock data in dev mode
-if (devMode.value) {
-  console.log('🔧 DEV MODE: Simulating connected device with mock data');
-  deviceSettings.value = kb1Protocol.createDefaultSettings();
-  ccMappings.value = Array.from({ length: 8 }, (_, i) => 
+// Firmware version and features of the connected device
+const deviceCapabilities = computed(() => connectionStatus.value.capabilities);
+// Show the preset UI structure until a connected device says otherwise
+const hasDevicePresetSupport = computed(() => deviceCapabilities.value?.features.presets ?? true);
+
+/**
+ * Connect to the KB1 over the active transport and refresh preset slots
+ */
+async function connectDevice() {
+  isLoading.value = true;
+  try {
+    await activeClient().connect();
+    // On successful connection, load device state
+    // Try to refresh device presets if supported
+    try {
+      if (activeClient().hasDevicePresetSupport()) {
+        await refreshDevicePresets();
+      }
+    } catch (error) {
+      console.warn('Could not refresh device presets:', error);
+    }
+  } catch (error) {
+    console.error('Connection failed:', error);
+    throw error;
+  } finally {
+    isLoading.value = false;
+  }
+}
+
+/**
+ * Read every settings characteristic into deviceSettings
+ * Sections the device doesn't expose keep their current values
+ */
+async function readDeviceSettings() {
+  const settings = await activeClient().readAllSettings();
+  deviceSettings.value = { ...deviceSettings.value, ...settings };
+  clearDrift(activeSession.value);
+}
+
+/**
+ * Forget drift for sections the editor is back in sync with
+ */
+function clearDrift(session: DeviceSession, sections: readonly SettingsSection[] = SETTINGS_SECTIONS) {
+  const drift = session.settingsDrift.value;
+  if (!drift) {
+    return;
+  }
+  
+  const remaining = drift.sections.filter(section => !sections.includes(section));
+  if (remaining.length === 0) {
+    session.settingsDrift.value = null;
+    return;
+  }
+  const device: Partial<DeviceSettings> = {};
+  for (const section of remaining) {
+    Object.assign(device, { [section]: drift.device[section] });
+  }
+  session.settingsDrift.value = { ...drift, sections: remaining, device };
+}
+
+function createDefaultCCMappings(): CCMapping[] {
+  return Array.from({ length: faderCount.value ?? DEFAULT_FADER_COUNT }, (_, i) =>
     kb1Protocol.createDefaultCCMapping(i)
   );
 }
 
-// Snapshot state for restore functionality
-const SNAPSHOT_KEY = 'kb1_snapshot_v1';
-const baselineSnapshot = ref<{ ccMappings: CCMapping[]; settings: DeviceSettings } | null>(null);
+/**
+ * Read fader CC mappings from the device
+ * Returns false (mappings untouched) when the firmware has no mapping support
+ */
+async function readDeviceCCMappings(session: DeviceSession = activeSession.value): Promise<boolean> {
+  if (!session.client.hasFeature('ccMappings')) {
+    console.log(`ℹ️ ${firmwareUpdateMessage('ccMappings', session.client.getCapabilities())}`);
+    return false;
+  }
+  
+  const table = await session.client.readCCMappings();
+  session.faderCount.value = table.faderCount;
+  session.ccMappings.value = table.mappings;
+  return true;
+}
+
+/**
+ * Cache the firmware's default settings (firmware with device resets only)
+ */
+async function readFirmwareDefaults(session: DeviceSession) {
+  if (!session.client.hasFeature('deviceReset')) {
+    session.firmwareDefaults = null;
+    return;
+  }
+  
+  session.firmwareDefaults = {
+    ...kb1Protocol.createDefaultDeviceSettings(),
+    ...await session.client.readFactoryDefaults(),
+  };
+}
 
-// Initialize BLE client callbacks
-bleClient.setStatusChangeCallback((status) => {
-  connectionStatus.value = status;
+function loadPendingChanges(key: string | null): PendingChangeSet | null {
+  if (!key) {
+    return null;
+  }
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('Failed to load offline edits from localStorage:', error);
+    return null;
+  }
+}
+
+/**
+ * Set or clear a session's offline edits and persist them (first session only)
+ */
+function storePendingChanges(session: DeviceSession, pending: PendingChangeSet | null) {
+  session.pendingChanges.value = pending;
+  
+  if (!session.pendingKey) {
+    return;
+  }
+  try {
+    if (pending) {
+      localStorage.setItem(session.pendingKey, JSON.stringify(pending));
+    } else {
+      localStorage.removeItem(session.pendingKey);
+    }
+  } catch (error) {
+    console.error('Failed to save offline edits to localStorage:', error);
+  }
+}
+
+/**
+ * Read the device and compare it with the baseline and the offline edits
+ * Sections only the device changed are adopted right away; if nothing
+ * conflicts the edits don't need a decision beyond applying them.
+ */
+async function startReconciliation(session: DeviceSession) {
+  const pending = session.pendingChanges.value;
+  if (!pending) {
+    return;
+  }
+  
+  const device = await readFullSettings(session.client);
+  session.deviceSettings.value = { ...session.deviceSettings.value, ...device };
+  session.reconciliation.value = {
+    device,
+    comparisons: compareThreeWay(pending.baseline, pending.settings, device),
+  };
+  console.log('🔀 Offline edits ready to reconcile:', session.reconciliation.value.comparisons);
+}
+
+/**
+ * Set a session's baseline snapshot and persist it (first session only)
+ */
+function storeBaseline(session: DeviceSession, snapshot: BaselineSnapshot) {
+  session.baselineSnapshot.value = snapshot;
   
-  // Clear data on disconnect
-  if (!status.connected) {
-    ccMappings.value = [];
-    deviceSettings.value = kb1Protocol.createDefaultSettings();
+  if (!session.snapshotKey) {
+    return;
+  }
+  try {
+    localStorage.setItem(session.snapshotKey, JSON.stringify(snapshot));
+    console.log('Baseline snapshot captured and saved to localStorage');
+  } catch (error) {
+    console.error('Failed to save snapshot to localStorage:', error);
+  }
+}
+
+/**
+ * Sections a save has to write: those differing from the baseline, from the
+ * settings the device last reported, or from what is being auditioned
+ * Everything is written until a baseline has been captured.
+ */
+function sectionsToSend(session: DeviceSession, settings: DeviceSettings): SettingsSection[] {
+  const baseline = session.baselineSnapshot.value?.settings;
+  if (!baseline) {
+    return [...SETTINGS_SECTIONS];
+  }
+  
+  const references = [baseline, session.deviceSettings.value, session.auditionedSettings]
+    .filter((reference): reference is DeviceSettings => reference !== null);
+  const changed = new Set(references.flatMap(reference => changedSections(reference, settings)));
+  return SETTINGS_SECTIONS.filter(section => changed.has(section));
+}
+
+function assertValidSettings(settings: DeviceSettings) {
+  // Field ranges, then the sleep timer ordering (naming the timer to move)
+  const issue = settings.system ? sleepTimerIssues(settings.system)[0] : undefined;
+  if (!kb1Protocol.validateSettings(settings) || issue) {
+    throw new Error(issue ? `Invalid device settings: ${issue.message}` : 'Invalid device settings');
+  }
+}
+
+/**
+ * Default settings: the connected firmware's when known, else the app's copy
+ */
+function defaultSettings(): DeviceSettings {
+  const { firmwareDefaults } = activeSession.value;
+  return firmwareDefaults
+    ? JSON.parse(JSON.stringify(firmwareDefaults))
+    : kb1Protocol.createDefaultDeviceSettings();
+}
+
+async function refreshDevicePresets(session: DeviceSession = activeSession.value) {
+  if (!session.client.hasDevicePresetSupport()) {
+    console.log('ℹ️ Device preset support not available (requires firmware update)');
+    return;
+  }
+  
+  try {
+    const presets = await session.client.listDevicePresets();
+    session.devicePresets.value = presets;
+    console.log('✅ Device presets refreshed:', presets);
+  } catch (error) {
+    console.error('❌ Failed to refresh device presets:', error);
+    throw error;
+  }
+}
+
+/**
+ * Silently reconnect to a previously granted KB1 on page load
+ */
+async function autoConnect() {
+  if (!await bleClient.connectRemembered()) {
+    return;
   }
-});
-
-bleClient.setDataReceivedCallback((data) => {
-  // Handle incoming data from device
-  const message = kb1Protocol.decodeMessage(data);
-  if (message) {
-    console.log('Received message from device:', message);
-    // TODO: Update state based on message type
+  try {
+    if (bleClient.hasDevicePresetSupport()) {
+      await refreshDevicePresets(primarySession);
+    }
+  } catch (error) {
+    console.warn('Could not refresh device presets:', error);
   }
-});
+}
+
+// Resume the simulated device, or a remembered KB1, on page load
+if (devMode.value) {
+  console.log('🔧 DEV MODE: Connecting to simulated KB1');
+  void setDevMode(true);
+} else {
+  void autoConnect();
+}
 
 /**
  * Composable for managing KB1 device state
@@ -91,68 +630,14 @@ export function useDeviceState() {
    * Connect to a KB1 device
    */
   const connect = async () => {
-    // In dev mode, simulate instant connection
-    if (devMode.value) {
-      console.log('🔧 DEV MODE: Simulating connection...');
-      isLoading.value = true;
-      
-      return new Promise<void>((resolve) => {
-        setTimeout(() => {
-          connectionStatus.value = {
-            connected: true,
-            device: { name: 'KB1 (Dev Mode)' } as BluetoothDevice,
-            error: null,
-          };
-          
-          // Initialize with mock data
-          deviceSettings.value = kb1Protocol.createDefaultSettings();
-          ccMappings.value = Array.from({ length: 8 }, (_, i) => 
-            kb1Protocol.createDefaultCCMapping(i)
-          );
-          
-          isLoading.value = false;
-          console.log('🔧 DEV MODE: Connected with mock data');
-          resolve();
-        }, 500); // Simulate brief connection delay
-      });
-    }
-    
-    // Real BLE connection
-    isLoading.value = true;
-    try {
-      await bleClient.connect();
-      // On successful connection, load device state
-      // Try to refresh device presets if supported
-      try {
-        if (bleClient.hasDevicePresetSupport()) {
-          await refreshDevicePresets();
-        }
-      } catch (error) {
-        console.warn('Could not refresh device presets:', error);
-      }
-    } catch (error) {
-      console.error('Connection failed:', error);
-      throw error;
-    } finally {
-      isLoading.value = false;
-    }
+    await connectDevice();
   };
 
   /**
    * Disconnect from the current device
    */
   const disconnect = async () => {
-    if (devMode.value) {
-      console.log('🔧 DEV MODE: Simulating disconnect');
-      connectionStatus.value = {
-        connected: false,
-        device: null,
-        error: null,
-      };
-      return;
-    }
-    
-    await bleClient.disconnect();
+    await activeClient().disconnect();
   };
 
   /**
@@ -165,14 +650,10 @@ export function useDeviceState() {
 
     isLoading.value = true;
     try {
-      // TODO: Implement actual loading from device
-      const request = kb1Protocol.encodeGetCCMappings();
-      await bleClient.sendData(request);
-      
-      // For now, initialize with defaults
-      ccMappings.value = Array.from({ length: 8 }, (_, i) => 
-        kb1Protocol.createDefaultCCMapping(i)
-      );
+      // Older firmware can't report mappings; edit defaults locally
+      if (!await readDeviceCCMappings() && ccMappings.value.length === 0) {
+        ccMappings.value = createDefaultCCMappings();
+      }
     } catch (error) {
       console.error('Failed to load CC mappings:', error);
       throw error;
@@ -185,7 +666,7 @@ export function useDeviceState() {
    * Update a CC mapping
    */
   const updateCCMapping = (mapping: CCMapping) => {
-    if (!kb1Protocol.validateCCMapping(mapping)) {
+    if (!kb1Protocol.validateCCMapping(mapping, faderCount.value ?? undefined)) {
       throw new Error('Invalid CC mapping');
     }
 
@@ -206,8 +687,7 @@ export function useDeviceState() {
     }
 
     try {
-      const data = kb1Protocol.encodeSetCCMapping(mapping);
-      await bleClient.sendData(data);
+      await activeClient().writeCCMapping(mapping);
       updateCCMapping(mapping);
     } catch (error) {
       console.error('Failed to send CC mapping:', error);
@@ -216,83 +696,395 @@ export function useDeviceState() {
   };
 
   /**
-   * Load device settings from the device
+   * Send every fader mapping to the device (e.g. after loading a preset)
+   * Skipped on firmware without mapping support.
+   */
+  const sendCCMappings = async (mappings: CCMapping[]) => {
+    if (!supportsFeature('ccMappings') || !connectionStatus.value.connected) {
+      return;
+    }
+    
+    for (const mapping of mappings) {
+      await sendCCMapping(mapping);
+    }
+  };
+
+  /**
+   * Load device settings from the device
+   */
+  const loadSettings = async () => {
+    if (!connectionStatus.value.connected) {
+      throw new Error('Not connected to device');
+    }
+
+    isLoading.value = true;
+    try {
+      await readDeviceSettings();
+    } catch (error) {
+      console.error('Failed to load settings:', error);
+      throw error;
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  /**
+   * Update device settings
+   */
+  const updateSettings = (settings: DeviceSettings) => {
+    assertValidSettings(settings);
+    deviceSettings.value = settings;
+  };
+
+  /**
+   * Send settings to the device
+   * Only sections that differ from the baseline (or from what the device last
+   * reported) are written, so an unchanged section costs no flash write.
+   * Every section is verified by reading it back; a failed save restores the
+   * previous device values and the report says what happened per section.
+   */
+  const sendSettings = async (settings: DeviceSettings): Promise<SettingsWriteReport> => {
+    if (!connectionStatus.value.connected) {
+      throw new Error('Not connected to device');
+    }
+    assertValidSettings(settings);
+
+    const session = activeSession.value;
+    try {
+      // Write each changed section, read it back and roll everything back on a mismatch
+      const sections = sectionsToSend(session, settings);
+      const report = await writeSettingsVerified(session.client, settings, sections);
+      if (report.ok) {
+        updateSettings(settings);
+        clearDrift(session, sections);
+        if (session.isAuditioning.value) {
+          session.auditionedSettings = JSON.parse(JSON.stringify(settings));
+        }
+        // The device now matches what was sent; diff the next save against it
+        storeBaseline(session, {
+          ccMappings: session.baselineSnapshot.value?.ccMappings ?? JSON.parse(JSON.stringify(session.ccMappings.value)),
+          settings: JSON.parse(JSON.stringify(settings)),
+        });
+      } else {
+        // Pick up whatever the device ended up with
+        await readDeviceSettings().catch((error) => {
+          console.warn('Could not read settings back after failed save:', error);
+        });
+      }
+      return report;
+    } catch (error) {
+      console.error('Failed to send settings:', error);
+      throw error;
+    }
+  };
+
+  /**
+   * Save current state to device flash memory
+   * NOTE: Outside audition mode settings are already auto-saved to flash when
+   * written via BLE characteristics; while auditioning this commits them.
+   */
+  const saveToFlash = async () => {
+    if (!connectionStatus.value.connected) {
+      throw new Error('Not connected to device');
+    }
+
+    if (isAuditioning.value) {
+      await commitAudition();
+      return;
+    }
+
+    // Settings are automatically saved to flash when written via BLE characteristics
+    // No additional action needed
+    console.log('✅ Settings already persisted to flash (auto-save)');
+  };
+
+  /**
+   * Preview settings on the device without persisting them
+   * Enters audition mode on first use; only sections that changed since the
+   * previous preview are written.
+   */
+  const auditionSettings = (settings: DeviceSettings) => {
+    const snapshot: DeviceSettings = JSON.parse(JSON.stringify(settings));
+    const session = activeSession.value;
+    const preview = session.auditionQueue.then(() => writeAudition(session, snapshot));
+    session.auditionQueue = preview.catch(() => {});
+    return preview;
+  };
+
+  const writeAudition = async (session: DeviceSession, settings: DeviceSettings) => {
+    const { client } = session;
+    if (!session.connectionStatus.value.connected) {
+      throw new Error('Not connected to device');
+    }
+    if (!client.hasFeature('audition')) {
+      throw new Error(firmwareUpdateMessage('audition', client.getCapabilities()));
+    }
+
+    if (!client.isAuditioning()) {
+      await client.beginAudition();
+      session.auditionedSettings = JSON.parse(JSON.stringify(session.deviceSettings.value));
+      session.isAuditioning.value = true;
+    }
+
+    const previous = session.auditionedSettings ?? session.deviceSettings.value;
+    for (const section of changedSections(previous, settings)) {
+      await client.writeSection(section, settings[section]);
+    }
+    session.auditionedSettings = settings;
+  };
+
+  /**
+   * Persist the auditioned settings to flash
+   */
+  const commitAudition = async () => {
+    // Let in-flight previews land first so none reopens audition mode afterwards
+    const session = activeSession.value;
+    await session.auditionQueue;
+    await session.client.commitAudition();
+    if (session.auditionedSettings) {
+      updateSettings(session.auditionedSettings);
+    }
+    session.auditionedSettings = null;
+    session.isAuditioning.value = false;
+  };
+
+  /**
+   * Discard auditioned settings; the device returns to its persisted settings
+   */
+  const revertAudition = async () => {
+    const session = activeSession.value;
+    await session.auditionQueue;
+    await session.client.revertAudition();
+    session.auditionedSettings = null;
+    session.isAuditioning.value = false;
+    await loadSettings();
+  };
+
+  // ============================================
+  // Offline editing
+  // ============================================
+
+  /**
+   * Keep edits made while disconnected until the device is back
+   * The first call records the settings the edits start from.
+   */
+  const stagePendingChanges = (settings: DeviceSettings) => {
+    const session = activeSession.value;
+    const existing = session.pendingChanges.value;
+    storePendingChanges(session, {
+      baseline: existing?.baseline ?? JSON.parse(JSON.stringify(
+        session.baselineSnapshot.value?.settings ?? session.deviceSettings.value
+      )),
+      settings: JSON.parse(JSON.stringify(settings)),
+      deviceName: existing?.deviceName ?? session.connectionStatus.value.deviceName,
+      updatedAt: Date.now(),
+    });
+  };
+
+  /**
+   * Write the offline edits, taking each section from the chosen side
+   * Sections without a choice come from the device. Returns the settings the
+   * device ends up with (the device's own when the save fails).
+   */
+  const resolvePendingChanges = async (choices: Partial<Record<SettingsSection, SectionChoice>>) => {
+    const session = activeSession.value;
+    const pending = session.pendingChanges.value;
+    const reconciliation = session.reconciliation.value;
+    if (!pending || !reconciliation) {
+      throw new Error('No offline edits to apply');
+    }
+    
+    const merged = mergeSettings(pending.settings, reconciliation.device, choices);
+    assertValidSettings(merged);
+    
+    isLoading.value = true;
+    try {
+      const report = await writeSettingsVerified(
+        session.client,
+        merged,
+        changedSections(reconciliation.device, merged)
+      );
+      if (!report.ok) {
+        return { report, settings: reconciliation.device };
+      }
+      
+      session.deviceSettings.value = merged;
+      storeBaseline(session, {
+        ccMappings: session.baselineSnapshot.value?.ccMappings ?? JSON.parse(JSON.stringify(session.ccMappings.value)),
+        settings: JSON.parse(JSON.stringify(merged)),
+      });
+      storePendingChanges(session, null);
+      session.reconciliation.value = null;
+      console.log('✅ Offline edits applied');
+      return { report, settings: merged };
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  /**
+   * Drop the offline edits (the device keeps its settings)
+   */
+  const discardPendingChanges = () => {
+    const session = activeSession.value;
+    const reconciliation = session.reconciliation.value;
+    if (reconciliation) {
+      session.deviceSettings.value = reconciliation.device;
+      storeBaseline(session, {
+        ccMappings: session.baselineSnapshot.value?.ccMappings ?? JSON.parse(JSON.stringify(session.ccMappings.value)),
+        settings: JSON.parse(JSON.stringify(reconciliation.device)),
+      });
+    }
+    storePendingChanges(session, null);
+    session.reconciliation.value = null;
+    console.log('🗑️ Offline edits discarded');
+  };
+
+  // ============================================
+  // Drift detection
+  // ============================================
+
+  /**
+   * Take the drifted sections from the device
+   * They become part of the baseline, as if just loaded.
+   */
+  const reloadDriftedSettings = async () => {
+    const session = activeSession.value;
+    const drift = session.settingsDrift.value;
+    if (!drift) {
+      return;
+    }
+    
+    isLoading.value = true;
+    try {
+      const updated = { ...session.deviceSettings.value };
+      for (const section of drift.sections) {
+        Object.assign(updated, { [section]: await session.client.readSection(section) });
+      }
+      session.deviceSettings.value = updated;
+      
+      const baseline = session.baselineSnapshot.value;
+      if (baseline) {
+        const settings = JSON.parse(JSON.stringify(baseline.settings)) as DeviceSettings;
+        for (const section of drift.sections) {
+          Object.assign(settings, { [section]: JSON.parse(JSON.stringify(updated[section])) });
+        }
+        storeBaseline(session, { ...baseline, settings });
+      }
+      clearDrift(session, drift.sections);
+      console.log('🔄 Drifted settings reloaded:', drift.sections);
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  /**
+   * Write the editor's values back over the drifted sections (verified)
    */
-  const loadSettings = async () => {
-    if (!connectionStatus.value.connected) {
-      throw new Error('Not connected to device');
+  const overwriteDriftedSettings = async (): Promise<SettingsWriteReport | null> => {
+    const session = activeSession.value;
+    const drift = session.settingsDrift.value;
+    if (!drift) {
+      return null;
     }
-
+    
     isLoading.value = true;
     try {
-      // TODO: Implement actual loading from device
-      const request = kb1Protocol.encodeGetSettings();
-      await bleClient.sendData(request);
-    } catch (error) {
-      console.error('Failed to load settings:', error);
-      throw error;
+      const report = await writeSettingsVerified(session.client, session.deviceSettings.value, drift.sections);
+      if (report.ok) {
+        clearDrift(session, drift.sections);
+        console.log('✅ Drifted settings overwritten:', drift.sections);
+      }
+      return report;
     } finally {
       isLoading.value = false;
     }
   };
 
-  /**
-   * Update device settings
-   */
-  const updateSettings = (settings: DeviceSettings) => {
-    if (!kb1Protocol.validateSettings(settings)) {
-      throw new Error('Invalid device settings');
-    }
-    deviceSettings.value = settings;
-  };
+  // ============================================
+  // Live editing
+  // ============================================
 
   /**
-   * Send settings to the device
+   * Turn live-edit mode on or off
+   * Turning it on discards any audition preview and makes sure there is a
+   * baseline to revert to; turning it off writes what is still pending and
+   * keeps the result as the new baseline.
    */
-  const sendSettings = async (settings: DeviceSettings) => {
-    // In dev mode, just update locally
-    if (devMode.value) {
-      console.log('🔧 DEV MODE: Simulating send settings');
-      await new Promise(resolve => setTimeout(resolve, 200));
-      updateSettings(settings);
+  const setLiveEditing = async (enabled: boolean) => {
+    const session = activeSession.value;
+    if (enabled === session.isLiveEditing.value) {
       return;
     }
-
-    if (!connectionStatus.value.connected) {
+    if (!enabled) {
+      await commitLiveEdits();
+      session.isLiveEditing.value = false;
+      session.liveSettings = null;
+      console.log('⏹️ Live edit mode off');
+      return;
+    }
+    
+    if (!session.connectionStatus.value.connected) {
       throw new Error('Not connected to device');
     }
-
-    try {
-      // Write all settings to their individual characteristics
-      await bleClient.writeAllSettings(settings);
-      updateSettings(settings);
-    } catch (error) {
-      console.error('Failed to send settings:', error);
-      throw error;
+    if (session.isAuditioning.value) {
+      await revertAudition();
+    }
+    if (!session.baselineSnapshot.value) {
+      await readDeviceSettings();
+      captureBaseline();
     }
+    session.liveSettings = JSON.parse(JSON.stringify(session.deviceSettings.value));
+    session.isLiveEditing.value = true;
+    console.log('🔴 Live edit mode on');
   };
 
   /**
-   * Save current state to device flash memory
-   * NOTE: Settings are already auto-saved to flash when written via BLE characteristics.
-   * This function exists for API compatibility but doesn't need to do anything.
+   * Queue every section that changed since the last live edit
+   * Resolves once they are all written.
    */
-  const saveToFlash = async () => {
-    // In dev mode, simulate save
-    if (devMode.value) {
-      console.log('🔧 DEV MODE: Simulating save to flash');
-      await new Promise(resolve => setTimeout(resolve, 500));
-      console.log('🔧 DEV MODE: Save complete');
-      return;
+  const liveEditSettings = async (settings: DeviceSettings) => {
+    const session = activeSession.value;
+    if (!session.isLiveEditing.value || !session.liveSettings) {
+      throw new Error('Live edit mode is off');
     }
+    assertValidSettings(settings);
+    
+    const snapshot: DeviceSettings = JSON.parse(JSON.stringify(settings));
+    const sections = changedSections(session.liveSettings, snapshot);
+    session.liveSettings = snapshot;
+    await Promise.all(sections.map(section => session.liveWriter.push(section, snapshot[section])));
+  };
 
-    if (!connectionStatus.value.connected) {
-      throw new Error('Not connected to device');
-    }
+  /**
+   * Write pending live edits now and keep the device state as the baseline
+   */
+  const commitLiveEdits = async () => {
+    const session = activeSession.value;
+    await session.liveWriter.flush();
+    storeBaseline(session, {
+      ccMappings: session.baselineSnapshot.value?.ccMappings ?? JSON.parse(JSON.stringify(session.ccMappings.value)),
+      settings: JSON.parse(JSON.stringify(session.deviceSettings.value)),
+    });
+  };
 
-    // Settings are automatically saved to flash when written via BLE characteristics
-    // No additional action needed
-    console.log('✅ Settings already persisted to flash (auto-save)');
+  /**
+   * Drop pending live edits and write the baseline back (live mode stays on)
+   */
+  const revertLiveEdits = async (): Promise<SettingsWriteReport> => {
+    const session = activeSession.value;
+    const baseline = session.baselineSnapshot.value;
+    if (!baseline) {
+      throw new Error('No baseline to revert to. Please load from device first.');
+    }
+    
+    session.liveWriter.clear('Live edits reverted');
+    await session.liveWriter.whenIdle();
+    const report = await sendSettings(JSON.parse(JSON.stringify(baseline.settings)));
+    if (session.isLiveEditing.value) {
+      session.liveSettings = JSON.parse(JSON.stringify(session.deviceSettings.value));
+    }
+    return report;
   };
 
   /**
@@ -300,20 +1092,10 @@ export function useDeviceState() {
    * Called after successful load from device
    */
   const captureBaseline = () => {
-    const snapshot = {
+    storeBaseline(activeSession.value, {
       ccMappings: JSON.parse(JSON.stringify(ccMappings.value)),
       settings: JSON.parse(JSON.stringify(deviceSettings.value)),
-    };
-    
-    baselineSnapshot.value = snapshot;
-    
-    // Persist to localStorage
-    try {
-      localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(snapshot));
-      console.log('Baseline snapshot captured and saved to localStorage');
-    } catch (error) {
-      console.error('Failed to save snapshot to localStorage:', error);
-    }
+    });
   };
 
   /**
@@ -324,9 +1106,10 @@ export function useDeviceState() {
     let snapshot = baselineSnapshot.value;
     
     // If no snapshot in memory, try loading from localStorage
-    if (!snapshot) {
+    const { snapshotKey } = activeSession.value;
+    if (!snapshot && snapshotKey) {
       try {
-        const stored = localStorage.getItem(SNAPSHOT_KEY);
+        const stored = localStorage.getItem(snapshotKey);
         if (stored) {
           snapshot = JSON.parse(stored);
           baselineSnapshot.value = snapshot;
@@ -352,17 +1135,71 @@ export function useDeviceState() {
    * Sets ccMappings and settings to firmware-aligned defaults
    */
   const resetToDefaults = () => {
-    // Reset device settings to firmware defaults
-    deviceSettings.value = kb1Protocol.createDefaultDeviceSettings();
+    // Reset device settings to firmware defaults (local only; save to apply)
+    deviceSettings.value = defaultSettings();
     
     // Reset CC mappings to defaults with channel 1
-    ccMappings.value = Array.from({ length: 8 }, (_, i) => 
-      kb1Protocol.createDefaultCCMapping(i)
-    );
+    ccMappings.value = createDefaultCCMappings();
     
     console.log('Reset to firmware defaults');
   };
 
+  /**
+   * Run a device-side reset, then read the reset data back
+   */
+  const runDeviceReset = async (
+    reset: () => Promise<void>,
+    readBack: { settings?: boolean; ccMappings?: boolean; presets?: boolean }
+  ) => {
+    if (!connectionStatus.value.connected) {
+      throw new Error('Not connected to device');
+    }
+    
+    isLoading.value = true;
+    try {
+      await reset();
+      // Settings resets end audition mode
+      const session = activeSession.value;
+      session.isAuditioning.value = session.client.isAuditioning();
+      if (!session.isAuditioning.value) {
+        session.auditionedSettings = null;
+      }
+      
+      if (readBack.settings) {
+        await readDeviceSettings();
+      }
+      if (readBack.ccMappings) {
+        await readDeviceCCMappings();
+      }
+      if (readBack.presets) {
+        await refreshDevicePresets();
+      }
+      if (readBack.settings || readBack.ccMappings) {
+        captureBaseline();
+      }
+    } finally {
+      isLoading.value = false;
+    }
+  };
+  
+  /**
+   * Reset every settings section (or one) on the device
+   */
+  const resetDeviceSection = (section?: SettingsSection) =>
+    runDeviceReset(() => resetDeviceSettings(activeClient(), section), { settings: true });
+  
+  const resetDeviceFaderMappings = () =>
+    runDeviceReset(() => resetDeviceCCMappings(activeClient()), { ccMappings: true });
+  
+  const clearDevicePresets = () =>
+    runDeviceReset(() => clearDevicePresetSlots(activeClient()), { presets: true });
+  
+  /**
+   * Reset settings and fader mappings and clear every preset slot
+   */
+  const factoryReset = () =>
+    runDeviceReset(() => factoryResetDevice(activeClient()), { settings: true, ccMappings: true, presets: true });
+
   /**
    * Load all data from the device (CC mappings + settings)
    */
@@ -374,39 +1211,12 @@ export function useDeviceState() {
     isLoading.value = true;
     
     try {
-      // In dev mode, simulate loading
-      if (devMode.value) {
-        console.log('🔧 DEV MODE: Simulating load from device');
-        await new Promise(resolve => setTimeout(resolve, 500));
-        
-        // Ensure we have fresh default data
-        deviceSettings.value = kb1Protocol.createDefaultSettings();
-        ccMappings.value = Array.from({ length: 8 }, (_, i) => 
-          kb1Protocol.createDefaultCCMapping(i)
-        );
-        
-        captureBaseline();
-        console.log('🔧 DEV MODE: Load complete with mock data');
-        isLoading.value = false;
-        return;
-      }
-      
-      // Real BLE read
-      const settings = await bleClient.readAllSettings();
+      // Read settings from device (missing sections keep current values)
+      await readDeviceSettings();
       
-      // Update device settings with data from device
-      if (settings.lever1) deviceSettings.value.lever1 = settings.lever1;
-      if (settings.leverPush1) deviceSettings.value.leverPush1 = settings.leverPush1;
-      if (settings.lever2) deviceSettings.value.lever2 = settings.lever2;
-      if (settings.leverPush2) deviceSettings.value.leverPush2 = settings.leverPush2;
-      if (settings.touch) deviceSettings.value.touch = settings.touch;
-      if (settings.scale) deviceSettings.value.scale = settings.scale;
-      
-      // Initialize CC mappings if needed
-      if (ccMappings.value.length === 0) {
-        ccMappings.value = Array.from({ length: 8 }, (_, i) => 
-          kb1Protocol.createDefaultCCMapping(i)
-        );
+      // Read fader mappings (older firmware: initialize defaults if needed)
+      if (!await readDeviceCCMappings() && ccMappings.value.length === 0) {
+        ccMappings.value = createDefaultCCMappings();
       }
       
       // Capture baseline snapshot after successful load
@@ -431,178 +1241,348 @@ export function useDeviceState() {
    */
   const isConnected = computed(() => connectionStatus.value.connected);
 
+  /**
+   * Check if a dropped connection is being restored
+   */
+  const isReconnecting = computed(() => connectionStatus.value.state === 'reconnecting');
+
   /**
    * Get device name
    */
   const deviceName = computed(() => 
-    connectionStatus.value.device?.name || 'No device'
+    connectionStatus.value.deviceName || 'No device'
   );
 
   // ============================================
-  // Device Preset Management (Stub for testing UI)
+  // Device Preset Management
   // ============================================
   
-  const devicePresets = ref<DevicePresetMetadata[]>([]);
-  const hasDevicePresetSupport = ref(true); // Always show UI structure
+  const saveDevicePreset = async (slot: number, name: string) => {
+    if (slot < 0 || slot >= DEVICE_PRESET.MAX_SLOTS) {
+      throw new Error(`Invalid slot: ${slot}`);
+    }
+    const nameError = validateDevicePresetName(name);
+    if (nameError) {
+      throw new Error(nameError);
+    }
+    
+    // Save current settings to device
+    await activeClient().saveDevicePreset(slot, name);
+    // Refresh the preset list to get updated metadata
+    await refreshDevicePresets();
+  };
   
-  // Initialize with empty slots or mock data
-  if (devMode.value) {
-    devicePresets.value = [
-      { slot: 0, name: 'Ambient Pad', timestamp: Date.now() / 1000, isValid: true },
-      { slot: 1, name: 'Bass Heavy', timestamp: Date.now() / 1000 - 86400, isValid: true },
-      { slot: 2, name: DEVICE_PRESET.EMPTY_SLOT_NAME, timestamp: 0, isValid: false },
-      { slot: 3, name: 'Performance', timestamp: Date.now() / 1000 - 172800, isValid: true },
-      { slot: 4, name: DEVICE_PRESET.EMPTY_SLOT_NAME, timestamp: 0, isValid: false },
-      { slot: 5, name: DEVICE_PRESET.EMPTY_SLOT_NAME, timestamp: 0, isValid: false },
-      { slot: 6, name: DEVICE_PRESET.EMPTY_SLOT_NAME, timestamp: 0, isValid: false },
-      { slot: 7, name: DEVICE_PRESET.EMPTY_SLOT_NAME, timestamp: 0, isValid: false },
-    ];
-  } else {
-    // Initialize with 8 empty slots when not in dev mode
-    devicePresets.value = Array.from({ length: 8 }, (_, i) => ({
-      slot: i,
-      name: DEVICE_PRESET.EMPTY_SLOT_NAME,
-      timestamp: 0,
-      isValid: false
-    }));
-  }
+  const loadDevicePreset = async (slot: number) => {
+    if (slot < 0 || slot >= DEVICE_PRESET.MAX_SLOTS) {
+      throw new Error(`Invalid slot: ${slot}`);
+    }
+    
+    // Load preset from device (will update device's active settings)
+    await activeClient().loadDevicePreset(slot);
+    // Reload settings and fader mappings from device to reflect the loaded preset
+    await loadSettings();
+    await readDeviceCCMappings();
+  };
   
-  // Watch devMode to update presets when toggled
-  watch(devMode, (enabled) => {
-    if (enabled) {
-      // Load mock presets
-      devicePresets.value = [
-        { slot: 0, name: 'Ambient Pad', timestamp: Date.now() / 1000, isValid: true },
-        { slot: 1, name: 'Bass Heavy', timestamp: Date.now() / 1000 - 86400, isValid: true },
-        { slot: 2, name: DEVICE_PRESET.EMPTY_SLOT_NAME, timestamp: 0, isValid: false },
-        { slot: 3, name: 'Performance', timestamp: Date.now() / 1000 - 172800, isValid: true },
-        { slot: 4, name: DEVICE_PRESET.EMPTY_SLOT_NAME, timestamp: 0, isValid: false },
-        { slot: 5, name: DEVICE_PRESET.EMPTY_SLOT_NAME, timestamp: 0, isValid: false },
-        { slot: 6, name: DEVICE_PRESET.EMPTY_SLOT_NAME, timestamp: 0, isValid: false },
-        { slot: 7, name: DEVICE_PRESET.EMPTY_SLOT_NAME, timestamp: 0, isValid: false },
-      ];
-    } else {
-      // Clear to empty slots
-      devicePresets.value = Array.from({ length: 8 }, (_, i) => ({
-        slot: i,
-        name: DEVICE_PRESET.EMPTY_SLOT_NAME,
-        timestamp: 0,
-        isValid: false
-      }));
+  /**
+   * Read a device preset slot's settings without loading it
+   */
+  const readDevicePreset = async (slot: number) => {
+    if (slot < 0 || slot >= DEVICE_PRESET.MAX_SLOTS) {
+      throw new Error(`Invalid slot: ${slot}`);
     }
-  });
+    
+    return activeClient().readDevicePreset(slot);
+  };
   
-  const refreshDevicePresets = async () => {
-    if (devMode.value) {
-      console.log('🔧 DEV MODE: Refreshing device presets (mock)');
-      return;
+  /**
+   * Back up every preset slot and the active settings
+   */
+  const backupDevice = async (onProgress?: BackupProgressCallback) => {
+    if (!connectionStatus.value.connected) {
+      throw new Error('Not connected to device');
     }
     
-    if (!bleClient.hasDevicePresetSupport()) {
-      console.log('ℹ️ Device preset support not available (requires firmware update)');
-      return;
+    isLoading.value = true;
+    try {
+      return await createDeviceBackup(activeClient(), onProgress);
+    } finally {
+      isLoading.value = false;
+    }
+  };
+  
+  /**
+   * Restore a backup to the device, then refresh slots, settings and mappings
+   */
+  const restoreDevice = async (backup: DeviceBackup, onProgress?: BackupProgressCallback) => {
+    if (!connectionStatus.value.connected) {
+      throw new Error('Not connected to device');
     }
     
+    isLoading.value = true;
     try {
-      const presets = await bleClient.listDevicePresets();
-      devicePresets.value = presets;
-      console.log('✅ Device presets refreshed:', presets);
-    } catch (error) {
-      console.error('❌ Failed to refresh device presets:', error);
-      throw error;
+      const report = await restoreDeviceBackup(activeClient(), backup, onProgress);
+      await refreshDevicePresets();
+      await readDeviceSettings();
+      await readDeviceCCMappings();
+      return report;
+    } finally {
+      isLoading.value = false;
     }
   };
   
-  const saveDevicePreset = async (slot: number, name: string) => {
+  const deleteDevicePreset = async (slot: number) => {
     if (slot < 0 || slot >= DEVICE_PRESET.MAX_SLOTS) {
       throw new Error(`Invalid slot: ${slot}`);
     }
     
-    if (devMode.value) {
-      console.log(`🔧 DEV MODE: Saving to device slot ${slot}: "${name}"`);
-      console.log('📊 Device presets BEFORE save:', JSON.parse(JSON.stringify(devicePresets.value)));
-      
-      // Update mock data
-      devicePresets.value[slot] = {
-        slot,
-        name: name.slice(0, DEVICE_PRESET.NAME_MAX_LENGTH),
-        timestamp: Date.now() / 1000,
-        isValid: true,
-      };
-      
-      console.log('📊 Device presets AFTER save:', JSON.parse(JSON.stringify(devicePresets.value)));
-      console.log(`✅ Slot ${slot} updated:`, devicePresets.value[slot]);
-      return;
+    // Delete preset from device
+    await activeClient().deleteDevicePreset(slot);
+    // Refresh the preset list to reflect the deletion
+    await refreshDevicePresets();
+  };
+
+  /**
+   * Run a slot copy/move/swap/reorder, then refresh the slot list
+   */
+  const rearrangeDevicePresets = async (operation: () => Promise<void>) => {
+    if (!connectionStatus.value.connected) {
+      throw new Error('Not connected to device');
     }
     
-    // Save current settings to device
-    await bleClient.saveDevicePreset(slot, name);
-    // Refresh the preset list to get updated metadata
-    await refreshDevicePresets();
+    isLoading.value = true;
+    try {
+      await operation();
+    } finally {
+      isLoading.value = false;
+      await refreshDevicePresets();
+    }
   };
   
-  const loadDevicePreset = async (slot: number) => {
-    if (slot < 0 || slot >= DEVICE_PRESET.MAX_SLOTS) {
-      throw new Error(`Invalid slot: ${slot}`);
+  const copyDevicePreset = (from: number, to: number) =>
+    rearrangeDevicePresets(() => copyDeviceSlot(activeClient(), from, to));
+  
+  const moveDevicePreset = (from: number, to: number) =>
+    rearrangeDevicePresets(() => moveDeviceSlot(activeClient(), from, to));
+  
+  const swapDevicePresets = (a: number, b: number) =>
+    rearrangeDevicePresets(() => swapDeviceSlots(activeClient(), a, b));
+  
+  /**
+   * Move a preset to a new position, shifting the slots in between
+   */
+  const reorderDevicePresets = (from: number, to: number) =>
+    rearrangeDevicePresets(() => reorderDeviceSlots(activeClient(), from, to));
+
+  /**
+   * Rename the connected KB1 (the chooser shows the new name once the
+   * device advertises it, from the next connection)
+   */
+  const renameDevice = async (name: string) => {
+    if (!connectionStatus.value.connected) {
+      throw new Error('Not connected to device');
     }
     
+    await activeClient().renameDevice(name);
+    connectionStatus.value = { ...connectionStatus.value, deviceName: name };
+  };
+
+  // ============================================
+  // Multiple devices
+  // ============================================
+
+  /**
+   * Connected KB1s for the device switcher
+   */
+  const devices = computed<DeviceSummary[]>(() => sessions.value.map(session => ({
+    id: session.id,
+    name: session.connectionStatus.value.deviceName ?? 'No device',
+    connected: session.connectionStatus.value.connected,
+    active: session === activeSession.value,
+  })));
+
+  const activeDeviceId = computed(() => activeSession.value.id);
+
+  /**
+   * Connect another KB1 (another simulated unit in dev mode) and make it active
+   */
+  const addDevice = async () => {
+    let client: BLEClient;
+    let simulated: SimulatedKB1 | null = null;
     if (devMode.value) {
-      console.log(`🔧 DEV MODE: Loading from device slot ${slot}`);
-      const preset = devicePresets.value[slot];
-      if (preset && preset.isValid) {
-        console.log(`Loaded preset: "${preset.name}"`);
-        // In real implementation, this would update deviceSettings
-      } else {
-        throw new Error('Slot is empty');
+      const unit = nextSimulatedUnit++;
+      simulated = new SimulatedKB1(`KB1 (Dev Mode ${unit})`, 20, `-${unit}`);
+      client = new BLEClient(simulated.transport);
+    } else {
+      client = createBLEClient();
+    }
+    
+    const session = createSession(client, null, null);
+    isLoading.value = true;
+    try {
+      // A KB1 already open in another session is refused
+      const openDeviceIds = sessions.value
+        .map(open => open.client.getDeviceId())
+        .filter((id): id is string => id !== null);
+      await client.connect(openDeviceIds);
+      if (client.hasDevicePresetSupport()) {
+        await refreshDevicePresets(session).catch((error) => {
+          console.warn('Could not refresh device presets:', error);
+        });
       }
-      return;
+    } catch (error) {
+      simulated?.dispose();
+      console.error('❌ Failed to add device:', error);
+      throw error;
+    } finally {
+      isLoading.value = false;
     }
     
-    // Load preset from device (will update device's active settings)
-    await bleClient.loadDevicePreset(slot);
-    // Reload settings from device to reflect the loaded preset
-    await loadSettings();
+    if (simulated) {
+      simulatedSessionDevices.set(session.id, simulated);
+    }
+    sessions.value = [...sessions.value, session];
+    activeSession.value = session;
+    console.log(`✅ Added device: ${session.connectionStatus.value.deviceName}`);
   };
-  
-  const deleteDevicePreset = async (slot: number) => {
-    if (slot < 0 || slot >= DEVICE_PRESET.MAX_SLOTS) {
-      throw new Error(`Invalid slot: ${slot}`);
+
+  /**
+   * Make another connected KB1 the one the editor works on
+   */
+  const switchDevice = (id: number) => {
+    if (isLoading.value) {
+      throw new Error('Wait for the current operation to finish');
+    }
+    activeSession.value = findSession(id);
+  };
+
+  /**
+   * Disconnect a KB1 and forget its session
+   */
+  const removeDevice = async (id: number) => {
+    await removeSession(id);
+  };
+
+  /**
+   * Copy the saved settings (and optionally fader mappings) of one KB1 to another
+   * Reads from the source device, not the editor, so unsaved edits aren't copied.
+   * The target is written section by section with read-back verification; a
+   * failure restores its previous settings and leaves the fader mappings alone.
+   */
+  const copySettingsBetweenDevices = async (
+    fromId: number,
+    toId: number,
+    options: { ccMappings?: boolean } = {}
+  ): Promise<SettingsWriteReport> => {
+    const source = findSession(fromId);
+    const target = findSession(toId);
+    if (source === target) {
+      throw new Error('Choose two different devices');
+    }
+    if (!source.connectionStatus.value.connected || !target.connectionStatus.value.connected) {
+      throw new Error('Both devices must be connected');
     }
     
-    if (devMode.value) {
-      console.log(`🔧 DEV MODE: Deleting device slot ${slot}`);
-      console.log('📊 Device presets BEFORE delete:', JSON.parse(JSON.stringify(devicePresets.value)));
+    isLoading.value = true;
+    try {
+      const settings = await readFullSettings(source.client);
       
-      // Update mock data
-      devicePresets.value[slot] = {
-        slot,
-        name: DEVICE_PRESET.EMPTY_SLOT_NAME,
-        timestamp: 0,
-        isValid: false,
-      };
+      if (target.client.isAuditioning()) {
+        await target.auditionQueue;
+        await target.client.revertAudition();
+        target.auditionedSettings = null;
+        target.isAuditioning.value = false;
+      }
+      const report = await writeSettingsVerified(target.client, settings);
+      if (!report.ok) {
+        // Pick up whatever the target ended up with
+        try {
+          target.deviceSettings.value = { ...target.deviceSettings.value, ...await target.client.readAllSettings() };
+        } catch (error) {
+          console.warn('Could not read settings back after failed copy:', error);
+        }
+        return report;
+      }
+      target.deviceSettings.value = { ...target.deviceSettings.value, ...settings };
       
-      console.log('📊 Device presets AFTER delete:', JSON.parse(JSON.stringify(devicePresets.value)));
-      console.log(`✅ Slot ${slot} cleared`);
-      return;
+      if (options.ccMappings && source.client.hasFeature('ccMappings') && target.client.hasFeature('ccMappings')) {
+        // Faders the target doesn't have are skipped
+        const { mappings } = await source.client.readCCMappings();
+        const { faderCount } = await target.client.readCCMappings();
+        await writeCCMappings(target.client, mappings.filter(m => m.faderIndex < faderCount));
+        await readDeviceCCMappings(target);
+      }
+      storeBaseline(target, {
+        ccMappings: JSON.parse(JSON.stringify(
+          (!options.ccMappings && target.baselineSnapshot.value?.ccMappings) || target.ccMappings.value
+        )),
+        settings: JSON.parse(JSON.stringify(target.deviceSettings.value)),
+      });
+      console.log(`✅ Copied settings from ${source.connectionStatus.value.deviceName} to ${target.connectionStatus.value.deviceName}`);
+      return report;
+    } finally {
+      isLoading.value = false;
     }
-    
-    // Delete preset from device
-    await bleClient.deleteDevicePreset(slot);
-    // Refresh the preset list to reflect the deletion
-    await refreshDevicePresets();
+  };
+
+  /**
+   * Send live MIDI CC values to the active KB1
+   */
+  const sendControlChanges = async (pairs: CCPair[]) => {
+    await activeClient().sendControlChanges(pairs);
+  };
+
+  /**
+   * Mark device-side settings changes as handled by the UI
+   */
+  const acknowledgeRemoteSettingsChange = () => {
+    remoteSettingsChange.value = null;
+  };
+
+  /**
+   * Check if a feature is usable (optimistically true while disconnected)
+   */
+  const supportsFeature = (feature: DeviceFeature) => {
+    return deviceCapabilities.value?.features[feature] ?? true;
+  };
+
+  /**
+   * "Update firmware for X" message for an unsupported feature
+   */
+  const featureUnavailableMessage = (feature: DeviceFeature) => {
+    return firmwareUpdateMessage(feature, deviceCapabilities.value);
   };
 
   return {
     // State
     connectionStatus,
     ccMappings,
+    faderCount: readonly(faderCount),
     deviceSettings,
     isLoading,
+    remoteSettingsChange: readonly(remoteSettingsChange),
+    isAuditioning: readonly(isAuditioning),
+    isLiveEditing: readonly(isLiveEditing),
+    pendingChanges: readonly(pendingChanges),
+    reconciliation: readonly(reconciliation),
+    settingsDrift: readonly(settingsDrift),
+    liveWriteState: readonly(liveWriteState),
+    batteryStatus: readonly(batteryStatus),
     
     // Computed
     isBluetoothAvailable,
     isConnected,
+    isReconnecting,
     deviceName,
+    deviceCapabilities,
+    
+    // Devices
+    devices,
+    activeDeviceId,
+    addDevice,
+    switchDevice,
+    removeDevice,
+    copySettingsBetweenDevices,
     
     // Actions
     connect,
@@ -610,22 +1590,53 @@ export function useDeviceState() {
     loadCCMappings,
     updateCCMapping,
     sendCCMapping,
+    sendCCMappings,
     loadSettings,
     updateSettings,
     sendSettings,
     saveToFlash,
+    auditionSettings,
+    commitAudition,
+    revertAudition,
+    stagePendingChanges,
+    resolvePendingChanges,
+    discardPendingChanges,
+    reloadDriftedSettings,
+    overwriteDriftedSettings,
+    setLiveEditing,
+    liveEditSettings,
+    commitLiveEdits,
+    revertLiveEdits,
     handleLoad,
     captureBaseline,
     recallBaseline,
     resetToDefaults,
+    resetDeviceSection,
+    resetDeviceFaderMappings,
+    clearDevicePresets,
+    factoryReset,
+    renameDevice,
+    acknowledgeRemoteSettingsChange,
+    sendControlChanges,
+    
+    // Capabilities
+    supportsFeature,
+    featureUnavailableMessage,
     
     // Device Presets
     devicePresets,
     hasDevicePresetSupport,
-    refreshDevicePresets,
+    refreshDevicePresets: () => refreshDevicePresets(),
     saveDevicePreset,
     loadDevicePreset,
+    readDevicePreset,
     deleteDevicePreset,
+    copyDevicePreset,
+    moveDevicePreset,
+    swapDevicePresets,
+    reorderDevicePresets,
+    backupDevice,
+    restoreDevice,
     
     // Dev Mode
     devMode: readonly(devMode),
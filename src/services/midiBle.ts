@@ -3,26 +3,33 @@
  * Writes ASCII "CC_NUMBER,VALUE" to KB1's MIDI characteristic
  */
 
+import { CCCoalescer, type CCCoalescerStats } from '../ble/ccCoalescer';
+
 type MidiBleState = {
   device?: BluetoothDevice;
   server?: BluetoothRemoteGATTServer;
   characteristic?: BluetoothRemoteGATTCharacteristic;
-  lastSendMs: number;
-  minIntervalMs: number;
 };
 
 const state: MidiBleState = {
   device: undefined,
   server: undefined,
   characteristic: undefined,
-  lastSendMs: 0,
-  minIntervalMs: 8,
 };
 
 const SERVICE_UUID = 'f22b99e8-81ab-4e46-abff-79a74a1f2ff3';
 const MIDI_CHARACTERISTIC_UUID = 'eb58b31b-d963-4c7d-9a11-e8aabec2fe32';
 const enc = new TextEncoder();
 
+// Last value wins per controller, 8ms minimum spacing between writes
+const coalescer = new CCCoalescer(async (cc, value) => {
+  const ch = state.characteristic;
+  if (!ch) {
+    throw new Error('Not connected');
+  }
+  await ch.writeValueWithoutResponse(enc.encode(`${cc},${value}`));
+}, 8);
+
 export const midiBle = {
   async connect(): Promise<void> {
     if (!navigator.bluetooth) {
@@ -50,6 +57,7 @@ export const midiBle = {
       state.device = undefined;
       state.server = undefined;
       state.characteristic = undefined;
+      coalescer.clear('Not connected');
     });
   },
 
@@ -58,20 +66,18 @@ export const midiBle = {
     state.device = undefined;
     state.server = undefined;
     state.characteristic = undefined;
+    coalescer.clear('Not connected');
   },
 
   async sendControlChange(cc: number, value: number): Promise<void> {
-    const now = performance.now();
-    if (now - state.lastSendMs < state.minIntervalMs) {
-      return;
-    }
-    state.lastSendMs = now;
-
-    const ch = state.characteristic;
-    if (!ch) {
+    if (!state.characteristic) {
       throw new Error('Not connected');
     }
 
-    await ch.writeValueWithoutResponse(enc.encode(`${cc},${value}`));
+    await coalescer.push(cc, value);
+  },
+
+  getStats(): CCCoalescerStats {
+    return coalescer.getStats();
   },
 };
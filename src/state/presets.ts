@@ -2,7 +2,7 @@
  * Preset Store - localStorage-based preset management for complete device settings
  */
 
-import type { DeviceSettings } from '../ble/kb1Protocol';
+import type { CCMapping, DeviceSettings } from '../ble/kb1Protocol';
 
 type Snapshot = Record<string, number>;
 const SNAPSHOT_PREFIX = 'kb1.snapshot.';
@@ -14,6 +14,8 @@ export interface Preset {
   id: string;
   name: string;
   settings: DeviceSettings;
+  /** Fader CC mappings (absent in presets saved before mapping support) */
+  ccMappings?: CCMapping[];
   createdAt: number;
   modifiedAt: number;
 }
@@ -71,12 +73,13 @@ export const PresetStore = {
     }
   },
 
-  createPreset(name: string, settings: DeviceSettings): Preset {
+  createPreset(name: string, settings: DeviceSettings, ccMappings?: CCMapping[]): Preset {
     const now = Date.now();
     const preset: Preset = {
       id: `preset-${now}-${Math.random().toString(36).substr(2, 9)}`,
       name,
       settings: JSON.parse(JSON.stringify(settings)), // Deep clone
+      ccMappings: ccMappings ? JSON.parse(JSON.stringify(ccMappings)) : undefined,
       createdAt: now,
       modifiedAt: now,
     };
@@ -120,7 +123,7 @@ export const PresetStore = {
     if (!original) return null;
     
     const name = newName || `${original.name} (copy)`;
-    return this.createPreset(name, original.settings);
+    return this.createPreset(name, original.settings, original.ccMappings);
   },
 
   getActivePresetId(): string | null {
@@ -155,7 +158,7 @@ export const PresetStore = {
       }
       
       // Create new preset with imported data
-      return this.createPreset(data.name, data.settings);
+      return this.createPreset(data.name, data.settings, data.ccMappings);
     } catch {
       return null;
     }
@@ -173,7 +176,7 @@ export const PresetStore = {
       
       for (const preset of presets) {
         if (preset.name && preset.settings) {
-          this.createPreset(preset.name, preset.settings);
+          this.createPreset(preset.name, preset.settings, preset.ccMappings);
           count++;
         }
       }
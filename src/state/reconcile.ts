@@ -0,0 +1,108 @@
+/**
+ * Reconcile - Three-way comparison of offline edits with the device
+ *
+ * Edits made while disconnected start from a baseline (the settings last
+ * read from the device). When the device is back, each section is compared
+ * across the baseline, the pending edits and what the device now holds, so
+ * sections changed on only one side can be taken from that side and only
+ * real conflicts need a decision.
+ */
+
+import type { DeviceSettings } from '../ble/kb1Protocol';
+import { SETTINGS_SECTIONS, type SettingsSection } from '../ble/settingsCodec';
+import { changedSections, diffSettings, type SettingsFieldChange } from './settingsDiff';
+
+/**
+ * Edits made while disconnected, kept until the device is reconciled
+ */
+export interface PendingChangeSet {
+  /** Device settings the edits started from */
+  baseline: DeviceSettings;
+  /** Settings as edited offline */
+  settings: DeviceSettings;
+  /** Device the edits were made for (null when never connected) */
+  deviceName: string | null;
+  /** When the edits were last changed (ms since epoch) */
+  updatedAt: number;
+}
+
+export type SectionSyncState =
+  /** Neither side changed the section */
+  | 'unchanged'
+  /** Edited offline only */
+  | 'pending'
+  /** Changed on the device only */
+  | 'device'
+  /** Both changed it, to the same values */
+  | 'same'
+  /** Both changed it differently */
+  | 'conflict';
+
+export interface SectionComparison {
+  section: SettingsSection;
+  state: SectionSyncState;
+  /** Fields where the pending edits differ from the device (from: device, to: pending) */
+  differences: SettingsFieldChange[];
+}
+
+/** Which side a section is taken from */
+export type SectionChoice = 'pending' | 'device';
+
+/**
+ * Compare every section across baseline, pending edits and device
+ */
+export function compareThreeWay(
+  baseline: DeviceSettings,
+  pending: DeviceSettings,
+  device: DeviceSettings
+): SectionComparison[] {
+  const editedOffline = new Set(changedSections(baseline, pending));
+  const changedOnDevice = new Set(changedSections(baseline, device));
+  const differences = diffSettings(device, pending);
+
+  return SETTINGS_SECTIONS.map(section => {
+    const sectionDifferences = differences.filter(change => change.section === section);
+    let state: SectionSyncState;
+    if (editedOffline.has(section) && changedOnDevice.has(section)) {
+      state = sectionDifferences.length > 0 ? 'conflict' : 'same';
+    } else if (editedOffline.has(section)) {
+      state = 'pending';
+    } else if (changedOnDevice.has(section)) {
+      state = 'device';
+    } else {
+      state = 'unchanged';
+    }
+    return { section, state, differences: sectionDifferences };
+  });
+}
+
+/**
+ * Starting choices: each section from the side that changed it, pending
+ * edits for conflicts
+ */
+export function defaultChoices(
+  comparisons: readonly Pick<SectionComparison, 'section' | 'state'>[]
+): Record<SettingsSection, SectionChoice> {
+  const choices = {} as Record<SettingsSection, SectionChoice>;
+  for (const { section, state } of comparisons) {
+    choices[section] = state === 'device' ? 'device' : 'pending';
+  }
+  return choices;
+}
+
+/**
+ * Build settings taking each section from the chosen side (device by default)
+ */
+export function mergeSettings(
+  pending: DeviceSettings,
+  device: DeviceSettings,
+  choices: Partial<Record<SettingsSection, SectionChoice>>
+): DeviceSettings {
+  const merged = JSON.parse(JSON.stringify(device)) as DeviceSettings;
+  for (const section of SETTINGS_SECTIONS) {
+    if (choices[section] === 'pending') {
+      Object.assign(merged, { [section]: JSON.parse(JSON.stringify(pending[section])) });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,42 @@
+/**
+ * Settings Diff - Field-level comparison of device settings
+ */
+
+import type { DeviceSettings } from '../ble/kb1Protocol';
+import { SETTINGS_SECTIONS, type SettingsSection } from '../ble/settingsCodec';
+
+export interface SettingsFieldChange {
+  section: SettingsSection;
+  key: string;
+  from: number | undefined;
+  to: number | undefined;
+}
+
+/**
+ * List every field whose value differs between two settings objects
+ * Sections are compared in SETTINGS_SECTIONS order.
+ */
+export function diffSettings(from: DeviceSettings, to: DeviceSettings): SettingsFieldChange[] {
+  const changes: SettingsFieldChange[] = [];
+
+  for (const section of SETTINGS_SECTIONS) {
+    const before = from[section] as unknown as Record<string, number | undefined>;
+    const after = to[section] as unknown as Record<string, number | undefined>;
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const key of keys) {
+      if (before[key] !== after[key]) {
+        changes.push({ section, key, from: before[key], to: after[key] });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Sections containing at least one changed field
+ */
+export function changedSections(from: DeviceSettings, to: DeviceSettings): SettingsSection[] {
+  return [...new Set(diffSettings(from, to).map(change => change.section))];
+}
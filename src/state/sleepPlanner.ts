@@ -0,0 +1,260 @@
+/**
+ * Sleep Planner - Keep the KB1 power timers consistent and estimate battery life
+ *
+ * After its last input the KB1 stays awake until the light sleep timeout,
+ * light-sleeps until the deep sleep timeout and keeps the Bluetooth link up
+ * until the BT timeout. Firmware only accepts timers in that order with a
+ * 30s buffer between each, so editing one timer moves the ones after it out
+ * (or the ones before it in) instead of leaving an invalid combination.
+ */
+
+import type { SystemSettings } from '../ble/kb1Protocol';
+
+/**
+ * Sleep timers in the order they expire
+ */
+export const SLEEP_TIMERS = ['lightSleepTimeout', 'deepSleepTimeout', 'bleTimeout'] as const;
+
+export type SleepTimer = typeof SLEEP_TIMERS[number];
+
+export interface TimerRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Firmware limits per timer, in seconds
+ */
+export const SLEEP_TIMER_LIMITS: Record<SleepTimer, TimerRange> = {
+  lightSleepTimeout: { min: 30, max: 300 },
+  deepSleepTimeout: { min: 120, max: 1800 },
+  bleTimeout: { min: 30, max: 600 },
+};
+
+/**
+ * Limits for the idle confirmation delay, in seconds
+ */
+export const IDLE_CONFIRM_LIMITS: TimerRange = { min: 1, max: 30 };
+
+export const SLEEP_TIMER_LABELS: Record<SleepTimer, string> = {
+  lightSleepTimeout: 'Light sleep',
+  deepSleepTimeout: 'Deep sleep',
+  bleTimeout: 'BT connection',
+};
+
+// Minimum seconds after the previous timer; firmware wants deep sleep
+// strictly more than 30s after light sleep, BT at least 30s after deep sleep
+const MIN_GAP: Record<SleepTimer, number> = {
+  lightSleepTimeout: 0,
+  deepSleepTimeout: 31,
+  bleTimeout: 30,
+};
+
+export interface SleepTimerIssue {
+  /** Timer (or idle confirmation delay) to adjust */
+  field: SleepTimer | 'idleConfirmTimeout';
+  message: string;
+}
+
+/**
+ * Values a timer can take with the other timers moved out of the way
+ * Narrower than the firmware limits: e.g. deep sleep can't exceed the
+ * longest BT timeout minus its buffer.
+ */
+export function sleepTimerRange(timer: SleepTimer): TimerRange {
+  const index = SLEEP_TIMERS.indexOf(timer);
+  let { min, max } = SLEEP_TIMER_LIMITS[timer];
+
+  // Earliest the timer can be with every earlier timer at its minimum
+  let earliest = -Infinity;
+  for (const earlier of SLEEP_TIMERS.slice(0, index + 1)) {
+    earliest = Math.max(SLEEP_TIMER_LIMITS[earlier].min, earliest + MIN_GAP[earlier]);
+  }
+  // Latest the timer can be with every later timer at its maximum
+  let latest = Infinity;
+  for (const later of SLEEP_TIMERS.slice(index).reverse()) {
+    latest = Math.min(SLEEP_TIMER_LIMITS[later].max, latest);
+    if (later !== timer) {
+      latest -= MIN_GAP[later];
+    }
+  }
+
+  min = Math.max(min, earliest);
+  max = Math.min(max, latest);
+  return { min, max };
+}
+
+/**
+ * Set one timer and move the others just enough to stay valid
+ * Later timers are pushed out, earlier timers pulled in; timers that are
+ * already far enough apart keep their values.
+ */
+export function planSleepTimers(system: SystemSettings, timer: SleepTimer, value: number): SystemSettings {
+  const result = { ...system };
+  for (const other of SLEEP_TIMERS) {
+    result[other] = clampToRange(result[other], sleepTimerRange(other));
+  }
+  result[timer] = clampToRange(value, sleepTimerRange(timer));
+
+  const index = SLEEP_TIMERS.indexOf(timer);
+  for (let i = index + 1; i < SLEEP_TIMERS.length; i++) {
+    const current = SLEEP_TIMERS[i]!;
+    const previous = SLEEP_TIMERS[i - 1]!;
+    result[current] = Math.max(result[current], result[previous] + MIN_GAP[current]);
+  }
+  for (let i = index - 1; i >= 0; i--) {
+    const current = SLEEP_TIMERS[i]!;
+    const next = SLEEP_TIMERS[i + 1]!;
+    result[current] = Math.min(result[current], result[next] - MIN_GAP[next]);
+  }
+
+  if (result.idleConfirmTimeout !== undefined) {
+    result.idleConfirmTimeout = clampToRange(result.idleConfirmTimeout, IDLE_CONFIRM_LIMITS);
+  }
+  return result;
+}
+
+/**
+ * Nearest valid timers, keeping light sleep where possible
+ * Used for settings from older presets or files that break the rules.
+ */
+export function repairSleepTimers(system: SystemSettings): SystemSettings {
+  return planSleepTimers(system, 'lightSleepTimeout', system.lightSleepTimeout);
+}
+
+/**
+ * Everything wrong with a set of timers, naming the field to adjust
+ */
+export function sleepTimerIssues(system: SystemSettings): SleepTimerIssue[] {
+  const issues: SleepTimerIssue[] = [];
+
+  for (const timer of SLEEP_TIMERS) {
+    const { min, max } = SLEEP_TIMER_LIMITS[timer];
+    const value = system[timer];
+    if (!Number.isInteger(value) || value < min || value > max) {
+      issues.push({ field: timer, message: `${SLEEP_TIMER_LABELS[timer]} must be between ${min}s and ${max}s` });
+    }
+  }
+
+  if (system.deepSleepTimeout < system.lightSleepTimeout + MIN_GAP.deepSleepTimeout) {
+    issues.push({
+      field: 'deepSleepTimeout',
+      message: `Deep sleep must be more than 30s after light sleep (at least ${system.lightSleepTimeout + MIN_GAP.deepSleepTimeout}s)`,
+    });
+  }
+  if (system.bleTimeout < system.deepSleepTimeout + MIN_GAP.bleTimeout) {
+    issues.push({
+      field: 'bleTimeout',
+      message: `BT connection must be at least 30s after deep sleep (at least ${system.deepSleepTimeout + MIN_GAP.bleTimeout}s)`,
+    });
+  }
+
+  const idleConfirm = system.idleConfirmTimeout;
+  if (idleConfirm !== undefined &&
+      (!Number.isInteger(idleConfirm) || idleConfirm < IDLE_CONFIRM_LIMITS.min || idleConfirm > IDLE_CONFIRM_LIMITS.max)) {
+    issues.push({
+      field: 'idleConfirmTimeout',
+      message: `Idle confirmation must be between ${IDLE_CONFIRM_LIMITS.min}s and ${IDLE_CONFIRM_LIMITS.max}s`,
+    });
+  }
+
+  return issues;
+}
+
+// ============================================
+// Battery estimates
+// ============================================
+
+/**
+ * Average current draw per power state, in milliamps
+ */
+export interface PowerModel {
+  /** Battery capacity in mAh */
+  capacityMah: number;
+  /** Playing (sensors scanning, MIDI being sent) */
+  playingMa: number;
+  /** Awake with no input, before light sleep */
+  awakeIdleMa: number;
+  lightSleepMa: number;
+  deepSleepMa: number;
+  /** Extra draw while the Bluetooth link is held open */
+  bleLinkMa: number;
+}
+
+/**
+ * Rough figures for the KB1; good for comparing settings, not for exact runtimes
+ */
+export const DEFAULT_POWER_MODEL: PowerModel = {
+  capacityMah: 1000,
+  playingMa: 25,
+  awakeIdleMa: 18,
+  lightSleepMa: 6,
+  deepSleepMa: 0.5,
+  bleLinkMa: 3,
+};
+
+export interface UsagePattern {
+  /** Hours of playing per day */
+  playingHoursPerDay: number;
+  /** Breaks per day long enough for the timers to run (between songs, sessions) */
+  pausesPerDay: number;
+  /** Average break length in minutes */
+  pauseMinutes: number;
+}
+
+export const DEFAULT_USAGE_PATTERN: UsagePattern = {
+  playingHoursPerDay: 1,
+  pausesPerDay: 12,
+  pauseMinutes: 10,
+};
+
+export interface BatteryEstimate {
+  /** Days a full charge lasts with the usage pattern (KB1 left switched on) */
+  days: number;
+  /** Charge used per day, in mAh */
+  dailyMah: number;
+  /** Charge used by one break, in mAh */
+  pauseMah: number;
+}
+
+/**
+ * Charge used while idle for a number of seconds, in mAh
+ */
+export function idleChargeMah(system: SystemSettings, idleSeconds: number, model: PowerModel = DEFAULT_POWER_MODEL): number {
+  const within = (from: number, to: number) => Math.max(0, Math.min(idleSeconds, to) - from);
+  const milliampSeconds =
+    within(0, system.lightSleepTimeout) * model.awakeIdleMa +
+    within(system.lightSleepTimeout, system.deepSleepTimeout) * model.lightSleepMa +
+    within(system.deepSleepTimeout, Infinity) * model.deepSleepMa +
+    within(0, system.bleTimeout) * model.bleLinkMa;
+  return milliampSeconds / 3600;
+}
+
+/**
+ * Estimate battery life for a set of timers and a usage pattern
+ * The rest of each day (not playing, not in a break) is spent in deep sleep.
+ */
+export function estimateBatteryLife(
+  system: SystemSettings,
+  usage: UsagePattern = DEFAULT_USAGE_PATTERN,
+  model: PowerModel = DEFAULT_POWER_MODEL
+): BatteryEstimate {
+  const pauseSeconds = usage.pauseMinutes * 60;
+  const pauseMah = idleChargeMah(system, pauseSeconds, model);
+  const restHours = Math.max(0, 24 - usage.playingHoursPerDay - (usage.pausesPerDay * pauseSeconds) / 3600);
+
+  const dailyMah =
+    usage.playingHoursPerDay * (model.playingMa + model.bleLinkMa) +
+    usage.pausesPerDay * pauseMah +
+    restHours * model.deepSleepMa;
+
+  return {
+    days: dailyMah > 0 ? model.capacityMah / dailyMah : Infinity,
+    dailyMah,
+    pauseMah,
+  };
+}
+
+function clampToRange(value: number, range: TimerRange): number {
+  return Math.min(range.max, Math.max(range.min, Math.round(value)));
+}